@@ -0,0 +1,348 @@
+/**
+ * Cache Workload Simulator
+ *
+ * Replays a sequence of key requests (a "trace") against several cache
+ * implementations at several capacities and reports hit ratio and
+ * throughput. Use it to pick a cache for a workload instead of guessing.
+ *
+ * Key Concepts:
+ * - Read-through replay: get(key), and put(key) on a miss - the way an
+ *   application uses a cache in front of a database
+ * - Zipf: a few keys get most traffic (web pages, product catalogs)
+ * - Scan: a long run of keys seen once (batch jobs, table scans)
+ * - Loop: keys requested in a cycle slightly larger than the cache - the
+ *   worst case for LRU
+ * - Hit ratio depends on capacity, so every cache is run at each size
+ *
+ * Run with: pnpm simulate:cache [--trace file] [--capacities 100,1000] [--csv out.csv]
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { performance } from 'perf_hooks';
+import { LRUCache, LRUCacheWithTTL, LFUCache, ARCCache, WTinyLFUCache } from './lru-cache';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type TraceKey = string | number;
+
+/** The part of a cache the simulator needs */
+interface SimulatedCache {
+  get(key: TraceKey): unknown;
+  put(key: TraceKey, value: unknown): unknown;
+}
+
+interface CacheCandidate {
+  name: string;
+  create: (capacity: number) => SimulatedCache;
+}
+
+interface Workload {
+  name: string;
+  trace: TraceKey[];
+}
+
+interface SimulationResult {
+  cache: string;
+  workload: string;
+  capacity: number;
+  requests: number;
+  hits: number;
+  hitRatio: number;
+  durationMs: number;
+  opsPerSec: number;
+}
+
+interface SimulationOptions {
+  capacities: number[];
+  /** Defaults to every cache class in lru-cache.ts */
+  caches?: CacheCandidate[];
+}
+
+// ============================================================================
+// WORKLOAD GENERATORS
+// ============================================================================
+
+/**
+ * Keys 0..keys-1 where key k is requested with probability ~ 1 / (k+1)^skew.
+ * Sampled by binary search over the cumulative distribution.
+ */
+function zipfTrace(
+  keys: number,
+  length: number,
+  skew: number = 1,
+  random: () => number = Math.random
+): TraceKey[] {
+  const cdf = new Float64Array(keys);
+  let sum = 0;
+  for (let k = 0; k < keys; k++) {
+    sum += 1 / Math.pow(k + 1, skew);
+    cdf[k] = sum;
+  }
+
+  const trace: TraceKey[] = [];
+  for (let i = 0; i < length; i++) {
+    const target = random() * sum;
+    let low = 0;
+    let high = keys - 1;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (cdf[mid] < target) low = mid + 1;
+      else high = mid;
+    }
+    trace.push(low);
+  }
+  return trace;
+}
+
+/**
+ * `length` distinct keys, each requested once, starting at `offset`
+ */
+function scanTrace(length: number, offset: number = 0): TraceKey[] {
+  return Array.from({ length }, (_, i) => offset + i);
+}
+
+/**
+ * Keys 0..loopSize-1 repeated in order until `length` requests
+ */
+function loopTrace(loopSize: number, length: number): TraceKey[] {
+  return Array.from({ length }, (_, i) => i % loopSize);
+}
+
+/**
+ * A Zipf hot set interrupted by scans: `scanEvery` Zipf requests, then
+ * `scanLength` one-off keys, repeated. Shows which caches are scan resistant.
+ */
+function zipfWithScansTrace(
+  keys: number,
+  length: number,
+  scanEvery: number,
+  scanLength: number,
+  random: () => number = Math.random
+): TraceKey[] {
+  const trace: TraceKey[] = [];
+  let nextScanKey = keys;
+
+  while (trace.length < length) {
+    trace.push(...zipfTrace(keys, Math.min(scanEvery, length - trace.length), 1, random));
+    const scan = scanTrace(Math.min(scanLength, length - trace.length), nextScanKey);
+    nextScanKey += scan.length;
+    trace.push(...scan);
+  }
+  return trace;
+}
+
+/**
+ * Parse a trace file: one request per line, the key is the first
+ * whitespace- or comma-separated field. Blank lines and '#' comments are
+ * skipped, so simple CSV exports and most published traces work as-is.
+ */
+function parseTrace(text: string): TraceKey[] {
+  const trace: TraceKey[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+    trace.push(trimmed.split(/[\s,]+/)[0]);
+  }
+  return trace;
+}
+
+async function readTraceFile(path: string): Promise<TraceKey[]> {
+  return parseTrace(await readFile(path, 'utf8'));
+}
+
+// ============================================================================
+// SIMULATOR
+// ============================================================================
+
+const DEFAULT_CACHES: CacheCandidate[] = [
+  { name: 'LRU', create: capacity => new LRUCache<TraceKey, unknown>(capacity) },
+  { name: 'LFU', create: capacity => new LFUCache<TraceKey, unknown>(capacity) },
+  // TTL long enough that nothing expires: measures the wrapper's overhead
+  { name: 'LRU-TTL', create: capacity => new LRUCacheWithTTL<TraceKey, unknown>(capacity, 3600000) },
+  { name: 'ARC', create: capacity => new ARCCache<TraceKey, unknown>(capacity) },
+  { name: 'W-TinyLFU', create: capacity => new WTinyLFUCache<TraceKey, unknown>(capacity) }
+];
+
+/**
+ * Replay one trace against one fresh cache
+ */
+function replay(cache: SimulatedCache, trace: TraceKey[]): { hits: number; durationMs: number } {
+  let hits = 0;
+  const start = performance.now();
+
+  for (const key of trace) {
+    if (cache.get(key) !== undefined) {
+      hits++;
+    } else {
+      cache.put(key, true);
+    }
+  }
+
+  return { hits, durationMs: performance.now() - start };
+}
+
+/**
+ * Run every workload against every cache at every capacity
+ */
+function simulate(workloads: Workload[], options: SimulationOptions): SimulationResult[] {
+  if (options.capacities.length === 0) {
+    throw new Error("At least one capacity is required");
+  }
+  const caches = options.caches ?? DEFAULT_CACHES;
+  const results: SimulationResult[] = [];
+
+  for (const workload of workloads) {
+    for (const capacity of options.capacities) {
+      for (const candidate of caches) {
+        const { hits, durationMs } = replay(candidate.create(capacity), workload.trace);
+        const requests = workload.trace.length;
+
+        results.push({
+          cache: candidate.name,
+          workload: workload.name,
+          capacity,
+          requests,
+          hits,
+          hitRatio: requests === 0 ? 0 : hits / requests,
+          durationMs,
+          opsPerSec: durationMs === 0 ? Infinity : Math.round(requests / (durationMs / 1000))
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Fixed-width table grouped by workload and capacity
+ */
+function formatTable(results: SimulationResult[]): string {
+  const header = ['Workload', 'Capacity', 'Cache', 'Hit Ratio', 'Ops/sec'];
+  const rows = results.map(r => [
+    r.workload,
+    String(r.capacity),
+    r.cache,
+    `${(r.hitRatio * 100).toFixed(2)}%`,
+    Number.isFinite(r.opsPerSec) ? r.opsPerSec.toLocaleString('en-US') : '-'
+  ]);
+
+  const widths = header.map((title, col) => Math.max(title.length, ...rows.map(row => row[col].length)));
+  const format = (row: string[]) =>
+    row.map((cell, col) => (col >= 3 ? cell.padStart(widths[col]) : cell.padEnd(widths[col]))).join('  ');
+
+  return [format(header), widths.map(w => '-'.repeat(w)).join('  '), ...rows.map(format)].join('\n');
+}
+
+function toCSV(results: SimulationResult[]): string {
+  const header = 'workload,capacity,cache,requests,hits,hit_ratio,duration_ms,ops_per_sec';
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+  const lines = results.map(r =>
+    [
+      escape(r.workload),
+      r.capacity,
+      escape(r.cache),
+      r.requests,
+      r.hits,
+      r.hitRatio.toFixed(4),
+      r.durationMs.toFixed(2),
+      r.opsPerSec
+    ].join(',')
+  );
+
+  return [header, ...lines].join('\n') + '\n';
+}
+
+// ============================================================================
+// COMMAND LINE
+// ============================================================================
+
+const USAGE = `Usage: pnpm simulate:cache [options]
+  --capacities <n,n,...>  Cache sizes to compare (default: 100,1000)
+  --length <n>            Requests per generated workload (default: 100000)
+  --trace <file>          Replay a trace file (one key per line) instead
+  --csv <file>            Also write the results to a CSV file`;
+
+function argValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+/** Report a bad argument with the usage text and exit */
+function usageError(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+async function main(args: string[]): Promise<void> {
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const capacities = (argValue(args, '--capacities') ?? '100,1000')
+    .split(',')
+    .map(Number);
+  if (capacities.some(c => !Number.isInteger(c) || c <= 0)) {
+    usageError("--capacities must be a comma-separated list of positive integers");
+  }
+
+  const lengthArg = args.includes('--length') ? argValue(args, '--length') ?? '' : '100000';
+  const length = Number(lengthArg);
+  if (lengthArg.trim() === '' || !Number.isInteger(length) || length <= 0) {
+    usageError(`--length must be a positive integer, got "${lengthArg}"`);
+  }
+
+  const tracePath = argValue(args, '--trace');
+
+  const workloads: Workload[] = tracePath
+    ? [{ name: tracePath, trace: await readTraceFile(tracePath) }]
+    : [
+        { name: 'zipf', trace: zipfTrace(10000, length) },
+        { name: 'zipf+scans', trace: zipfWithScansTrace(10000, length, 5000, 2000) },
+        { name: 'loop', trace: loopTrace(Math.max(...capacities) + 1, length) }
+      ];
+
+  const results = simulate(workloads, { capacities });
+  console.log(formatTable(results));
+
+  const csvPath = argValue(args, '--csv');
+  if (csvPath) {
+    await writeFile(csvPath, toCSV(results));
+    console.log(`\nCSV written to ${csvPath}`);
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).catch(error => {
+    console.error("Simulation failed:", error);
+    process.exit(1);
+  });
+}
+
+export {
+  simulate,
+  replay,
+  zipfTrace,
+  scanTrace,
+  loopTrace,
+  zipfWithScansTrace,
+  parseTrace,
+  readTraceFile,
+  formatTable,
+  toCSV,
+  DEFAULT_CACHES,
+  type TraceKey,
+  type SimulatedCache,
+  type CacheCandidate,
+  type Workload,
+  type SimulationResult,
+  type SimulationOptions
+};
@@ -0,0 +1,197 @@
+/**
+ * Circuit Breaker
+ *
+ * Wraps calls to a dependency that can go down (a Redis rate limit store,
+ * a remote API). After enough consecutive failures the breaker "opens" and
+ * fails calls immediately instead of waiting on a broken backend; after a
+ * cooldown it lets one trial call through to see if the backend is back.
+ *
+ * Key Concepts:
+ * - closed:    calls go through; consecutive failures are counted
+ * - open:      calls are rejected at once, sparing the backend and callers
+ * - half-open: the cooldown passed; one trial call decides between closed
+ *              (it worked) and open again (it failed)
+ * - A call that hangs counts as a failure once it exceeds the timeout, so
+ *   an unresponsive backend opens the circuit like a refusing one
+ * - State changes are reported through a callback and stats, so they can
+ *   be logged, alerted on or exposed on a health endpoint
+ */
+
+import { systemClock, type Clock, type ClockTimer } from './clock';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface CircuitBreakerOptions {
+  failureThreshold?: number; // Consecutive failures that open the circuit (default 5)
+  resetTimeout?: number;     // Milliseconds to stay open before a trial call (default 30000)
+  timeout?: number;          // Milliseconds before a call is rejected as failed (default: no limit)
+  clock?: Clock;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+interface CircuitBreakerStats {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  rejected: number;            // Calls failed fast without reaching the backend
+  nextAttemptAt: Date | null;  // When an open circuit allows a trial call
+}
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private rejected = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+  private readonly timeout?: number;
+  private readonly clock: Clock;
+  private readonly onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+    if (this.failureThreshold < 1 || this.resetTimeout <= 0) {
+      throw new Error("failureThreshold must be at least 1 and resetTimeout greater than 0");
+    }
+    if (options.timeout !== undefined && options.timeout <= 0) {
+      throw new Error("timeout must be greater than 0");
+    }
+    this.timeout = options.timeout;
+    this.clock = options.clock ?? systemClock;
+    this.onStateChange = options.onStateChange;
+  }
+
+  /**
+   * Run `operation` unless the circuit is open. A rejection, or no answer
+   * within the timeout, counts as a failure; while open (or while a
+   * half-open trial is running) calls are rejected with "Circuit breaker
+   * is open".
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      this.rejected++;
+      throw new Error("Circuit breaker is open");
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) this.trialInFlight = true;
+
+    try {
+      const result = await this.withTimeout(operation);
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      this.recordFailure();
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  /** Current state; an open circuit turns half-open once its cooldown passes */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.clock.now() >= this.openedAt + this.resetTimeout) {
+      this.transition('half-open');
+    }
+    return this.currentState;
+  }
+
+  get stats(): CircuitBreakerStats {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      rejected: this.rejected,
+      nextAttemptAt: state === 'open' ? new Date(this.openedAt + this.resetTimeout) : null
+    };
+  }
+
+  /** Close the circuit by hand, e.g. after the backend was fixed */
+  reset(): void {
+    this.consecutiveFailures = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * The operation itself can't be cancelled; it is left to finish (or
+   * not) in the background
+   */
+  private async withTimeout<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.timeout === undefined) {
+      return operation();
+    }
+
+    const timeout = this.timeout;
+    let timer: ClockTimer | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = this.clock.setTimeout(() => reject(new Error(`Call timed out after ${timeout}ms`)), timeout);
+    });
+
+    try {
+      return await Promise.race([operation(), timedOut]);
+    } finally {
+      this.clock.clearTimer(timer!);
+    }
+  }
+
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.transition('closed');
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+
+    // A failed trial reopens at once; otherwise wait for the threshold
+    if (this.currentState === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = this.clock.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.currentState;
+    if (previous === state) return;
+
+    this.currentState = state;
+    this.onStateChange?.(state, previous);
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+// Example: give a shared rate limit store 3 strikes (a call slower than
+// 200ms counts as one), then leave it alone for 10 seconds. With
+// DistributedRateLimiter's onStoreFailure: 'fallback', limits are enforced
+// locally meanwhile:
+//
+//   const storeBreaker = new CircuitBreaker({
+//     failureThreshold: 3,
+//     resetTimeout: 10000,
+//     timeout: 200,
+//     onStateChange: (state, previous) => logger.warn(`Rate limit store circuit: ${previous} -> ${state}`)
+//   });
+//
+//   new DistributedRateLimiter(redisStore, config, systemClock, {
+//     circuitBreaker: storeBreaker,
+//     onStoreFailure: 'fallback'
+//   })
+
+export { CircuitBreaker, type CircuitState, type CircuitBreakerOptions, type CircuitBreakerStats };
@@ -0,0 +1,153 @@
+/**
+ * Clock
+ *
+ * Time source for every time-dependent component (TTL caches, rate
+ * limiters, the URL shortener). Components take a Clock in their
+ * constructor instead of calling Date.now() and setInterval() directly,
+ * so tests can swap in a FakeClock and move time forward instantly
+ * instead of sleeping.
+ *
+ * Key Concepts:
+ * - Dependency injection: the default is the real clock, so callers that
+ *   don't care about time pass nothing
+ * - A fake clock owns its timers: advance(ms) fires every timer that
+ *   falls due, in order, with now() reporting each timer's due time
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Handle for a scheduled callback. unref() lets the process exit while
+ * the timer is still pending (a no-op on the fake clock).
+ */
+interface ClockTimer {
+  unref(): void;
+}
+
+interface Clock {
+  /** Milliseconds since the epoch */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): ClockTimer;
+  setInterval(callback: () => void, ms: number): ClockTimer;
+  /** Cancel a timeout or interval */
+  clearTimer(timer: ClockTimer): void;
+}
+
+// ============================================================================
+// SYSTEM CLOCK
+// ============================================================================
+
+/**
+ * Wall-clock time and Node.js timers
+ */
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearTimer: timer => clearTimeout(timer as NodeJS.Timeout)
+};
+
+// ============================================================================
+// FAKE CLOCK (for tests)
+// ============================================================================
+
+class FakeTimer implements ClockTimer {
+  constructor(
+    readonly id: number,
+    public dueAt: number,
+    readonly callback: () => void,
+    readonly interval: number | null
+  ) {}
+
+  unref(): void {}
+}
+
+/**
+ * Time only moves when advance() or set() is called
+ */
+class FakeClock implements Clock {
+  private time: number;
+  private timers: Map<number, FakeTimer> = new Map();
+  private nextId = 0;
+
+  constructor(start: number = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): ClockTimer {
+    return this.schedule(callback, ms, null);
+  }
+
+  setInterval(callback: () => void, ms: number): ClockTimer {
+    if (ms <= 0) {
+      throw new Error("Interval must be greater than 0");
+    }
+    return this.schedule(callback, ms, ms);
+  }
+
+  clearTimer(timer: ClockTimer): void {
+    if (timer instanceof FakeTimer) {
+      this.timers.delete(timer.id);
+    }
+  }
+
+  /**
+   * Move time forward, firing due timers in order. Timers scheduled by a
+   * callback fire in the same call if they fall due within the window.
+   */
+  advance(ms: number): void {
+    if (ms < 0) {
+      throw new Error("Cannot move time backwards");
+    }
+    const target = this.time + ms;
+
+    let timer = this.nextDue(target);
+    while (timer) {
+      this.time = timer.dueAt;
+      if (timer.interval === null) {
+        this.timers.delete(timer.id);
+      } else {
+        timer.dueAt += timer.interval;
+      }
+      timer.callback();
+      timer = this.nextDue(target);
+    }
+
+    this.time = target;
+  }
+
+  /** Jump to an absolute time, firing timers on the way */
+  set(time: number): void {
+    this.advance(time - this.time);
+  }
+
+  /** Timers that have not fired (or, for intervals, not been cleared) */
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  private schedule(callback: () => void, ms: number, interval: number | null): FakeTimer {
+    const timer = new FakeTimer(this.nextId++, this.time + Math.max(0, ms), callback, interval);
+    this.timers.set(timer.id, timer);
+    return timer;
+  }
+
+  /** Earliest timer due at or before `limit`; ties fire in scheduling order */
+  private nextDue(limit: number): FakeTimer | undefined {
+    let earliest: FakeTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.dueAt <= limit && (!earliest || timer.dueAt < earliest.dueAt)) {
+        earliest = timer;
+      }
+    }
+    return earliest;
+  }
+}
+
+export { systemClock, FakeClock, type Clock, type ClockTimer };
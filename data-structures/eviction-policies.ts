@@ -0,0 +1,766 @@
+/**
+ * Eviction Policies
+ *
+ * Pluggable replacement strategies for LRUCache. The cache owns the values;
+ * a policy only tracks keys and decides which one to evict when the cache
+ * is full. This lets the same workload be replayed against different
+ * policies without touching call sites.
+ *
+ * Policies:
+ * - LRU:    evict the least recently used key
+ * - MRU:    evict the most recently used key (good for cyclic scans)
+ * - FIFO:   evict the oldest inserted key, ignoring accesses
+ * - LFU:    evict the least frequently used key (ties broken by recency)
+ * - Random: evict a uniformly random key
+ * - ARC:    Adaptive Replacement Cache - balances recency and frequency
+ * - W-TinyLFU: small LRU window + frequency-based admission into a
+ *           segmented LRU main area (the design used by Caffeine)
+ *
+ * All operations are O(1).
+ */
+
+// ============================================================================
+// POLICY INTERFACE
+// ============================================================================
+
+interface EvictionPolicy<K> {
+  readonly name: string;
+
+  /** A new key was added to the cache */
+  onInsert(key: K): void;
+
+  /** An existing key was read or updated */
+  onAccess(key: K): void;
+
+  /** A key was looked up but not found (for policies that track history) */
+  onMiss?(key: K): void;
+
+  /** A key was removed by the caller (not by eviction) */
+  onRemove(key: K): void;
+
+  /**
+   * Choose a key to evict, stop tracking it and return it.
+   * `incomingKey` is the key about to be inserted, if any.
+   */
+  evict(incomingKey?: K): K | undefined;
+
+  /** Forget all tracked keys */
+  clear(): void;
+}
+
+type EvictionPolicyName = 'lru' | 'mru' | 'fifo' | 'lfu' | 'random' | 'arc' | 'wtinylfu';
+
+// ============================================================================
+// KEY LIST (doubly linked list of keys with O(1) lookup)
+// ============================================================================
+
+class KeyNode<K> {
+  prev: KeyNode<K> | null = null;
+  next: KeyNode<K> | null = null;
+
+  constructor(public key: K) {}
+}
+
+/**
+ * Front = most recently added/moved, back = oldest.
+ */
+class KeyList<K> {
+  private nodes: Map<K, KeyNode<K>> = new Map();
+  private head: KeyNode<K> | null = null;
+  private tail: KeyNode<K> | null = null;
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(key: K): boolean {
+    return this.nodes.has(key);
+  }
+
+  pushFront(key: K): void {
+    const node = new KeyNode(key);
+    node.next = this.head;
+    if (this.head) this.head.prev = node;
+    this.head = node;
+    if (!this.tail) this.tail = node;
+    this.nodes.set(key, node);
+  }
+
+  moveToFront(key: K): void {
+    const node = this.nodes.get(key);
+    if (!node || node === this.head) return;
+    this.unlink(node);
+    node.prev = null;
+    node.next = this.head;
+    if (this.head) this.head.prev = node;
+    this.head = node;
+    if (!this.tail) this.tail = node;
+  }
+
+  remove(key: K): boolean {
+    const node = this.nodes.get(key);
+    if (!node) return false;
+    this.unlink(node);
+    this.nodes.delete(key);
+    return true;
+  }
+
+  front(): K | undefined {
+    return this.head?.key;
+  }
+
+  back(): K | undefined {
+    return this.tail?.key;
+  }
+
+  popBack(): K | undefined {
+    const key = this.tail?.key;
+    if (key !== undefined) this.remove(key);
+    return key;
+  }
+
+  /** Keys from front to back */
+  *[Symbol.iterator](): IterableIterator<K> {
+    let current = this.head;
+    while (current) {
+      yield current.key;
+      current = current.next;
+    }
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.head = null;
+    this.tail = null;
+  }
+
+  private unlink(node: KeyNode<K>): void {
+    if (node.prev) node.prev.next = node.next;
+    else this.head = node.next;
+
+    if (node.next) node.next.prev = node.prev;
+    else this.tail = node.prev;
+  }
+}
+
+// ============================================================================
+// RECENCY-BASED POLICIES
+// ============================================================================
+
+class LRUPolicy<K> implements EvictionPolicy<K> {
+  readonly name: string = 'lru';
+  protected list = new KeyList<K>();
+
+  onInsert(key: K): void {
+    this.list.pushFront(key);
+  }
+
+  onAccess(key: K): void {
+    this.list.moveToFront(key);
+  }
+
+  onRemove(key: K): void {
+    this.list.remove(key);
+  }
+
+  evict(): K | undefined {
+    return this.list.popBack();
+  }
+
+  clear(): void {
+    this.list.clear();
+  }
+}
+
+class MRUPolicy<K> extends LRUPolicy<K> {
+  readonly name: string = 'mru';
+
+  evict(): K | undefined {
+    const key = this.list.front();
+    if (key !== undefined) this.list.remove(key);
+    return key;
+  }
+}
+
+class FIFOPolicy<K> extends LRUPolicy<K> {
+  readonly name: string = 'fifo';
+
+  // Accesses do not change insertion order
+  onAccess(): void {}
+}
+
+// ============================================================================
+// LFU POLICY
+// ============================================================================
+
+interface FrequencyBucket<K> {
+  freq: number;
+  keys: Set<K>;
+  prev: FrequencyBucket<K> | null;
+  next: FrequencyBucket<K> | null;
+}
+
+/**
+ * Frequency buckets in a list sorted by frequency, so the head is always
+ * the minimum even after removals empty it. Each Set keeps insertion
+ * order, so the first key in the head bucket is the least recently used
+ * among the least frequently used.
+ */
+class LFUPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'lfu';
+  private buckets: Map<K, FrequencyBucket<K>> = new Map();
+  private head: FrequencyBucket<K> | null = null; // lowest frequency
+
+  onInsert(key: K): void {
+    let bucket = this.head;
+    if (!bucket || bucket.freq !== 1) {
+      bucket = this.insertAfter(null, 1);
+    }
+    bucket.keys.add(key);
+    this.buckets.set(key, bucket);
+  }
+
+  onAccess(key: K): void {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return;
+
+    // The next bucket up is the neighbour, or a new one right after this one
+    let next = bucket.next;
+    if (!next || next.freq !== bucket.freq + 1) {
+      next = this.insertAfter(bucket, bucket.freq + 1);
+    }
+
+    this.detach(key, bucket);
+    next.keys.add(key);
+    this.buckets.set(key, next);
+  }
+
+  onRemove(key: K): void {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return;
+
+    this.detach(key, bucket);
+    this.buckets.delete(key);
+  }
+
+  evict(): K | undefined {
+    if (!this.head) return undefined;
+
+    const key = this.head.keys.values().next().value as K;
+    this.onRemove(key);
+    return key;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.head = null;
+  }
+
+  private insertAfter(prev: FrequencyBucket<K> | null, freq: number): FrequencyBucket<K> {
+    const next = prev ? prev.next : this.head;
+    const bucket: FrequencyBucket<K> = { freq, keys: new Set(), prev, next };
+
+    if (next) next.prev = bucket;
+    if (prev) prev.next = bucket;
+    else this.head = bucket;
+    return bucket;
+  }
+
+  /** Take a key out of its bucket, unlinking the bucket if it empties */
+  private detach(key: K, bucket: FrequencyBucket<K>): void {
+    bucket.keys.delete(key);
+    if (bucket.keys.size > 0) return;
+
+    if (bucket.prev) bucket.prev.next = bucket.next;
+    else this.head = bucket.next;
+    if (bucket.next) bucket.next.prev = bucket.prev;
+  }
+}
+
+// ============================================================================
+// RANDOM POLICY
+// ============================================================================
+
+/**
+ * Keys live in a dense array so a random victim can be picked in O(1);
+ * removal swaps the last element into the hole.
+ */
+class RandomPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'random';
+  private keys: K[] = [];
+  private indexes: Map<K, number> = new Map();
+
+  constructor(private random: () => number = Math.random) {}
+
+  onInsert(key: K): void {
+    this.indexes.set(key, this.keys.length);
+    this.keys.push(key);
+  }
+
+  onAccess(): void {}
+
+  onRemove(key: K): void {
+    const index = this.indexes.get(key);
+    if (index === undefined) return;
+
+    const last = this.keys.pop()!;
+    if (last !== key) {
+      this.keys[index] = last;
+      this.indexes.set(last, index);
+    }
+    this.indexes.delete(key);
+  }
+
+  evict(): K | undefined {
+    if (this.keys.length === 0) return undefined;
+    const key = this.keys[Math.floor(this.random() * this.keys.length)];
+    this.onRemove(key);
+    return key;
+  }
+
+  clear(): void {
+    this.keys = [];
+    this.indexes.clear();
+  }
+}
+
+// ============================================================================
+// ARC POLICY (Adaptive Replacement Cache)
+// ============================================================================
+
+/**
+ * ARC (Megiddo & Modha, 2003) splits resident keys into:
+ * - T1: seen once recently
+ * - T2: seen at least twice recently
+ * and remembers recently evicted keys in ghost lists B1 and B2.
+ *
+ * A hit in B1 means T1 was too small, so the target size `p` of T1 grows;
+ * a hit in B2 shrinks it. Scans only ever touch T1, so they cannot flush
+ * the frequently used keys in T2.
+ */
+class ARCPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'arc';
+  private t1 = new KeyList<K>();
+  private t2 = new KeyList<K>();
+  private b1 = new KeyList<K>();
+  private b2 = new KeyList<K>();
+  private p = 0; // Target size for T1
+  private ghostHit: { key: K; fromB2: boolean } | null = null;
+
+  constructor(private capacity: number) {
+    if (capacity <= 0) {
+      throw new Error("Capacity must be greater than 0");
+    }
+  }
+
+  /** Current target size of T1 (exposed for debugging and tests) */
+  get target(): number {
+    return this.p;
+  }
+
+  onInsert(key: K): void {
+    const hit = this.consumeGhostHit(key);
+
+    if (hit) {
+      this.t2.pushFront(key);
+    } else {
+      this.t1.pushFront(key);
+    }
+
+    this.trimGhosts();
+  }
+
+  onAccess(key: K): void {
+    if (this.t1.remove(key)) {
+      this.t2.pushFront(key);
+    } else {
+      this.t2.moveToFront(key);
+    }
+  }
+
+  onRemove(key: K): void {
+    if (!this.t1.remove(key)) this.t2.remove(key);
+  }
+
+  /**
+   * ARC's REPLACE: evict from T1 if it is above its target, otherwise
+   * from T2. The victim is remembered in the matching ghost list.
+   */
+  evict(incomingKey?: K): K | undefined {
+    if (incomingKey !== undefined) this.recordGhostHit(incomingKey);
+
+    const t1Size = this.t1.size;
+    const inB2 = this.ghostHit !== null && this.ghostHit.fromB2;
+    const fromT1 =
+      t1Size > 0 && (t1Size > this.p || (inB2 && t1Size === Math.floor(this.p)) || this.t2.size === 0);
+
+    if (fromT1) {
+      const key = this.t1.popBack()!;
+      this.b1.pushFront(key);
+      return key;
+    }
+
+    const key = this.t2.popBack();
+    if (key !== undefined) this.b2.pushFront(key);
+    return key;
+  }
+
+  clear(): void {
+    this.t1.clear();
+    this.t2.clear();
+    this.b1.clear();
+    this.b2.clear();
+    this.p = 0;
+    this.ghostHit = null;
+  }
+
+  /**
+   * Adapt `p` when the incoming key was recently evicted. Runs before
+   * REPLACE so the decision uses the updated target.
+   */
+  private recordGhostHit(key: K): void {
+    if (this.ghostHit?.key === key) return;
+
+    if (this.b1.has(key)) {
+      const delta = Math.max(this.b2.size / this.b1.size, 1);
+      this.p = Math.min(this.capacity, this.p + delta);
+      this.b1.remove(key);
+      this.ghostHit = { key, fromB2: false };
+    } else if (this.b2.has(key)) {
+      const delta = Math.max(this.b1.size / this.b2.size, 1);
+      this.p = Math.max(0, this.p - delta);
+      this.b2.remove(key);
+      this.ghostHit = { key, fromB2: true };
+    }
+  }
+
+  private consumeGhostHit(key: K): boolean {
+    // No eviction happened (cache not yet full) - adapt now
+    this.recordGhostHit(key);
+
+    const hit = this.ghostHit?.key === key;
+    this.ghostHit = null;
+    return hit;
+  }
+
+  /** Keep |T1| + |B1| <= c and the whole directory <= 2c */
+  private trimGhosts(): void {
+    while (this.t1.size + this.b1.size > this.capacity && this.b1.size > 0) {
+      this.b1.popBack();
+    }
+    while (this.t1.size + this.t2.size + this.b1.size + this.b2.size > 2 * this.capacity && this.b2.size > 0) {
+      this.b2.popBack();
+    }
+  }
+}
+
+// ============================================================================
+// FREQUENCY SKETCH (for TinyLFU admission)
+// ============================================================================
+
+/**
+ * 32-bit FNV-1a of String(key). Keys with the same string form share
+ * frequency estimates, which is fine for an approximate sketch.
+ */
+function hashKey(key: unknown, seed: number = 0x811c9dc5): number {
+  const str = String(key);
+  let hash = seed;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function nextPowerOfTwo(n: number): number {
+  let power = 1;
+  while (power < n) power <<= 1;
+  return power;
+}
+
+/**
+ * Count-Min Sketch: approximate frequency counts in fixed memory.
+ * `depth` rows of `width` counters; an item increments one counter per
+ * row and its estimate is the minimum across rows (never undercounts).
+ *
+ * Counters saturate at 15 (4 bits of information, as in TinyLFU) and are
+ * halved every `sampleSize` increments so old popularity fades.
+ */
+class CountMinSketch {
+  private counters: Uint8Array;
+  private width: number;
+  private additions = 0;
+  private static readonly DEPTH = 4;
+  private static readonly MAX_COUNT = 15;
+
+  constructor(expectedItems: number, private sampleSize: number = expectedItems * 10) {
+    this.width = nextPowerOfTwo(Math.max(16, expectedItems));
+    this.counters = new Uint8Array(this.width * CountMinSketch.DEPTH);
+  }
+
+  /**
+   * Conservative update: only the smallest counters are bumped, which
+   * reduces overestimation from hash collisions.
+   */
+  increment(key: unknown): void {
+    const indexes = this.indexesFor(key);
+    const min = Math.min(...indexes.map(i => this.counters[i]));
+    if (min >= CountMinSketch.MAX_COUNT) return;
+
+    for (const index of indexes) {
+      if (this.counters[index] === min) this.counters[index]++;
+    }
+
+    if (++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  estimate(key: unknown): number {
+    return Math.min(...this.indexesFor(key).map(i => this.counters[i]));
+  }
+
+  /** True right after a reset; used to clear the doorkeeper in step */
+  get justAged(): boolean {
+    return this.additions === 0;
+  }
+
+  clear(): void {
+    this.counters.fill(0);
+    this.additions = 0;
+  }
+
+  /** Halve every counter */
+  private age(): void {
+    for (let i = 0; i < this.counters.length; i++) {
+      this.counters[i] >>= 1;
+    }
+    this.additions = 0;
+  }
+
+  private indexesFor(key: unknown): number[] {
+    // Double hashing: row i uses h1 + i * h2
+    const h1 = hashKey(key);
+    const h2 = hashKey(key, h1) | 1;
+    const indexes: number[] = [];
+    for (let row = 0; row < CountMinSketch.DEPTH; row++) {
+      const column = (h1 + row * h2) & (this.width - 1);
+      indexes.push(row * this.width + column);
+    }
+    return indexes;
+  }
+}
+
+/**
+ * Bloom filter in front of the sketch. Most keys are seen only once; the
+ * doorkeeper absorbs those first sightings so they don't pollute the
+ * sketch counters.
+ */
+class Doorkeeper {
+  private bits: Uint32Array;
+  private size: number;
+  private static readonly HASHES = 3;
+
+  constructor(expectedItems: number) {
+    this.size = nextPowerOfTwo(Math.max(64, expectedItems * 8));
+    this.bits = new Uint32Array(this.size / 32);
+  }
+
+  /** Add a key; returns true if it was (probably) already present */
+  put(key: unknown): boolean {
+    let present = true;
+    for (const bit of this.bitsFor(key)) {
+      const mask = 1 << (bit & 31);
+      if ((this.bits[bit >>> 5] & mask) === 0) {
+        present = false;
+        this.bits[bit >>> 5] |= mask;
+      }
+    }
+    return present;
+  }
+
+  contains(key: unknown): boolean {
+    return this.bitsFor(key).every(bit => (this.bits[bit >>> 5] & (1 << (bit & 31))) !== 0);
+  }
+
+  clear(): void {
+    this.bits.fill(0);
+  }
+
+  private bitsFor(key: unknown): number[] {
+    const h1 = hashKey(key, 0x9747b28c);
+    const h2 = hashKey(key, h1) | 1;
+    const bits: number[] = [];
+    for (let i = 0; i < Doorkeeper.HASHES; i++) {
+      bits.push((h1 + i * h2) & (this.size - 1));
+    }
+    return bits;
+  }
+}
+
+// ============================================================================
+// W-TINYLFU POLICY
+// ============================================================================
+
+/**
+ * W-TinyLFU (Einziger, Friedman & Manes, 2017).
+ *
+ * Layout:
+ * - Window (1%): plain LRU; every new key starts here, so bursts of new
+ *   keys still get a chance to prove themselves
+ * - Main (99%): segmented LRU of probation (20%) and protected (80%);
+ *   a probation hit promotes to protected
+ *
+ * When the window overflows while the cache is full, its LRU key (the
+ * candidate) competes with main's LRU key (the victim): whichever the
+ * frequency sketch says is more popular stays. One-off scan keys have a
+ * low estimate, so they are rejected instead of flushing the main area.
+ */
+class WTinyLFUPolicy<K> implements EvictionPolicy<K> {
+  readonly name = 'wtinylfu';
+  private window = new KeyList<K>();
+  private probation = new KeyList<K>();
+  private protected = new KeyList<K>();
+  private sketch: CountMinSketch;
+  private doorkeeper: Doorkeeper;
+  private windowCapacity: number;
+  private protectedCapacity: number;
+
+  constructor(capacity: number) {
+    if (capacity <= 0) {
+      throw new Error("Capacity must be greater than 0");
+    }
+    this.windowCapacity = Math.max(1, Math.round(capacity * 0.01));
+    this.protectedCapacity = Math.floor((capacity - this.windowCapacity) * 0.8);
+    this.sketch = new CountMinSketch(capacity);
+    this.doorkeeper = new Doorkeeper(capacity);
+  }
+
+  /** Estimated access frequency of a key */
+  frequency(key: K): number {
+    return this.sketch.estimate(key) + (this.doorkeeper.contains(key) ? 1 : 0);
+  }
+
+  onInsert(key: K): void {
+    this.record(key);
+    this.window.pushFront(key);
+
+    // Not full yet (evict() wasn't called): overflow moves to main freely
+    if (this.window.size > this.windowCapacity) {
+      this.probation.pushFront(this.window.popBack()!);
+    }
+  }
+
+  onMiss(key: K): void {
+    this.record(key);
+  }
+
+  onAccess(key: K): void {
+    this.record(key);
+
+    if (this.window.has(key)) {
+      this.window.moveToFront(key);
+    } else if (this.probation.remove(key)) {
+      this.protected.pushFront(key);
+      if (this.protected.size > this.protectedCapacity) {
+        this.probation.pushFront(this.protected.popBack()!);
+      }
+    } else {
+      this.protected.moveToFront(key);
+    }
+  }
+
+  onRemove(key: K): void {
+    if (!this.window.remove(key) && !this.probation.remove(key)) {
+      this.protected.remove(key);
+    }
+  }
+
+  evict(): K | undefined {
+    const victim = this.probation.back() ?? this.protected.back();
+
+    // Window has room (e.g. after deletes): make room in main instead
+    if (this.window.size < this.windowCapacity) {
+      if (victim !== undefined) this.onRemove(victim);
+      return victim;
+    }
+
+    const candidate = this.window.back()!;
+    if (victim === undefined) {
+      this.window.remove(candidate);
+      return candidate;
+    }
+
+    // Admission: the candidate enters main only if it is more popular
+    if (this.frequency(candidate) > this.frequency(victim)) {
+      this.onRemove(victim);
+      this.window.remove(candidate);
+      this.probation.pushFront(candidate);
+      return victim;
+    }
+
+    this.window.remove(candidate);
+    return candidate;
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protected.clear();
+    this.sketch.clear();
+    this.doorkeeper.clear();
+  }
+
+  private record(key: K): void {
+    // First sighting only sets doorkeeper bits
+    if (this.doorkeeper.put(key)) {
+      this.sketch.increment(key);
+      if (this.sketch.justAged) this.doorkeeper.clear();
+    }
+  }
+}
+
+// ============================================================================
+// FACTORY
+// ============================================================================
+
+/**
+ * Build a policy from its configuration name.
+ * `capacity` is only used by policies that size internal state (ARC, W-TinyLFU).
+ */
+function createEvictionPolicy<K>(name: EvictionPolicyName, capacity: number): EvictionPolicy<K> {
+  switch (name) {
+    case 'lru':
+      return new LRUPolicy<K>();
+    case 'mru':
+      return new MRUPolicy<K>();
+    case 'fifo':
+      return new FIFOPolicy<K>();
+    case 'lfu':
+      return new LFUPolicy<K>();
+    case 'random':
+      return new RandomPolicy<K>();
+    case 'arc':
+      return new ARCPolicy<K>(capacity);
+    case 'wtinylfu':
+      return new WTinyLFUPolicy<K>(capacity);
+    default:
+      throw new Error(`Unknown eviction policy: ${name}`);
+  }
+}
+
+export {
+  LRUPolicy,
+  MRUPolicy,
+  FIFOPolicy,
+  LFUPolicy,
+  RandomPolicy,
+  ARCPolicy,
+  WTinyLFUPolicy,
+  CountMinSketch,
+  Doorkeeper,
+  KeyList,
+  createEvictionPolicy,
+  type EvictionPolicy,
+  type EvictionPolicyName
+};
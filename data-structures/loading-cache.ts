@@ -0,0 +1,178 @@
+/**
+ * Loading Cache (Read-Through)
+ *
+ * An LRUCache that fetches missing values from an async loader, e.g. a
+ * database query. Common system design follow-up to the LRU question:
+ * "what happens when 1,000 requests miss on the same key at once?"
+ *
+ * Key Concepts:
+ * - Read-through: callers only ask the cache, never the backend
+ * - Request coalescing: concurrent misses for one key share a single load
+ *   (prevents cache stampedes / thundering herd)
+ * - Negative caching: optionally remember "not found" for a short time
+ * - Errors are passed to every waiting caller and never cached, so the
+ *   next get() retries
+ */
+
+import { LRUCache, type CacheStats, type LRUCacheOptions } from './lru-cache';
+import { systemClock, type Clock } from './clock';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/** Returns undefined when the key does not exist in the backend */
+type Loader<K, V> = (key: K) => Promise<V | undefined>;
+
+interface LoadingCacheOptions<K, V> {
+  loader: Loader<K, V>;
+
+  /**
+   * How long (ms) to remember that the loader returned undefined.
+   * Negative results are not cached unless this is set.
+   */
+  negativeTTL?: number;
+
+  /** Passed through to the underlying LRUCache */
+  cacheOptions?: Pick<LRUCacheOptions<K, V>, 'policy'>;
+
+  /** Time source for negativeTTL (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Marker stored for "loader found nothing". Module-private, so it can't
+ * collide with a real cached value.
+ */
+class NegativeEntry {
+  constructor(readonly expiresAt: number) {}
+}
+
+// ============================================================================
+// LOADING CACHE IMPLEMENTATION
+// ============================================================================
+
+class LoadingCache<K, V> {
+  private cache: LRUCache<K, V | NegativeEntry>;
+  private inflight: Map<K, Promise<V | undefined>> = new Map();
+  private loader: Loader<K, V>;
+  private negativeTTL: number | null;
+  private clock: Clock;
+
+  constructor(capacity: number, options: LoadingCacheOptions<K, V>) {
+    this.cache = new LRUCache(capacity, options.cacheOptions);
+    this.loader = options.loader;
+    this.negativeTTL = options.negativeTTL ?? null;
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Return the cached value, or load it. Concurrent calls for the same
+   * missing key wait on the same loader call.
+   */
+  async get(key: K): Promise<V | undefined> {
+    const cached = this.cache.get(key);
+
+    if (cached instanceof NegativeEntry) {
+      if (this.clock.now() <= cached.expiresAt) return undefined;
+      this.cache.delete(key);
+    } else if (cached !== undefined || this.cache.has(key)) {
+      return cached;
+    }
+
+    return this.inflight.get(key) ?? this.load(key);
+  }
+
+  /**
+   * Return the cached value without loading
+   */
+  getIfPresent(key: K): V | undefined {
+    const cached = this.cache.peek(key);
+    return cached instanceof NegativeEntry ? undefined : cached;
+  }
+
+  /**
+   * Store a value directly (e.g. after a write to the backend).
+   * Any load already in flight for this key will not overwrite it.
+   */
+  put(key: K, value: V): void {
+    this.inflight.delete(key);
+    this.cache.put(key, value);
+  }
+
+  /**
+   * Drop a key. A load already in flight still resolves for its callers
+   * but its (possibly stale) result is not cached.
+   */
+  invalidate(key: K): void {
+    this.inflight.delete(key);
+    this.cache.delete(key);
+  }
+
+  clear(): Promise<void> {
+    this.inflight.clear();
+    return this.cache.clear();
+  }
+
+  /** Number of loads currently in flight */
+  get loading(): number {
+    return this.inflight.size;
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  stats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  private load(key: K): Promise<V | undefined> {
+    // Start from a resolved promise so a loader that throws synchronously
+    // still rejects, and `promise` is assigned before any callback runs
+    const promise: Promise<V | undefined> = Promise.resolve()
+      .then(() => this.loader(key))
+      .then(value => {
+        // Skip the write if invalidate()/put() happened while loading
+        if (this.inflight.get(key) === promise) {
+          this.store(key, value);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === promise) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  private store(key: K, value: V | undefined): void {
+    if (value !== undefined) {
+      this.cache.put(key, value);
+    } else if (this.negativeTTL !== null) {
+      this.cache.put(key, new NegativeEntry(this.clock.now() + this.negativeTTL));
+    }
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+// Example: Read-through cache in front of a user table
+interface User {
+  id: string;
+  name: string;
+}
+
+const fakeDb = new Map<string, User>([['u1', { id: 'u1', name: 'Ada' }]]);
+
+const userCache = new LoadingCache<string, User>(1000, {
+  loader: async (id) => fakeDb.get(id),
+  negativeTTL: 30000 // Remember unknown ids for 30 seconds
+});
+
+export { LoadingCache, type Loader, type LoadingCacheOptions };
@@ -11,8 +11,21 @@
  * - Doubly Linked List for O(1) insertions/deletions
  * - Move accessed items to front (most recent)
  * - Evict from back (least recent) when at capacity
+ *
+ * The replacement strategy is pluggable: pass an EvictionPolicy (or its
+ * name) to let something other than recency pick the victim. See
+ * eviction-policies.ts.
  */
 
+import {
+  ARCPolicy,
+  WTinyLFUPolicy,
+  createEvictionPolicy,
+  type EvictionPolicy,
+  type EvictionPolicyName
+} from './eviction-policies';
+import { systemClock, type Clock, type ClockTimer } from './clock';
+
 // ============================================================================
 // DOUBLY LINKED LIST NODE
 // ============================================================================
@@ -20,6 +33,7 @@
 class DLLNode<K, V> {
   key: K;
   value: V;
+  weight = 1;
   prev: DLLNode<K, V> | null = null;
   next: DLLNode<K, V> | null = null;
 
@@ -29,40 +43,300 @@ class DLLNode<K, V> {
   }
 }
 
+// ============================================================================
+// EVICTION CALLBACKS
+// ============================================================================
+
+/**
+ * Why an entry left the cache:
+ * - capacity: evicted to make room
+ * - expired:  its TTL elapsed
+ * - replaced: overwritten by put() with a new value
+ * - deleted:  removed with delete()
+ * - cleared:  removed by clear()
+ */
+type EvictionReason = 'capacity' | 'expired' | 'replaced' | 'deleted' | 'cleared';
+
+interface EvictionCallbacks<K, V> {
+  /** Called synchronously whenever an entry leaves the cache */
+  onEvict?: (key: K, value: V, reason: EvictionReason) => void;
+
+  /**
+   * Async cleanup (close handles, flush dirty values). Runs in the
+   * background; clear() resolves once every pending disposal has settled.
+   */
+  dispose?: (key: K, value: V, reason: EvictionReason) => Promise<void>;
+}
+
+class EvictionNotifier<K, V> {
+  private pending: Set<Promise<void>> = new Set();
+
+  constructor(private callbacks: EvictionCallbacks<K, V>) {}
+
+  /** True if anyone is listening (lets callers skip O(n) work) */
+  get active(): boolean {
+    return this.callbacks.onEvict !== undefined || this.callbacks.dispose !== undefined;
+  }
+
+  notify(key: K, value: V, reason: EvictionReason): void {
+    this.callbacks.onEvict?.(key, value, reason);
+
+    const dispose = this.callbacks.dispose;
+    if (!dispose) return;
+
+    const disposal: Promise<void> = Promise.resolve()
+      .then(() => dispose(key, value, reason))
+      .catch(error => {
+        console.error("Cache dispose error:", error);
+      })
+      .finally(() => {
+        this.pending.delete(disposal);
+      });
+    this.pending.add(disposal);
+  }
+
+  /** Wait for all in-flight disposals */
+  async settle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+}
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+
+interface CacheStats {
+  hits: number;
+  misses: number;
+  insertions: number;  // put() of a new key
+  updates: number;     // put() of an existing key
+  evictions: number;   // removed to make room
+  expirations: number; // removed because the TTL elapsed
+  hitRatio: number;    // hits / (hits + misses), 0 before any lookup
+}
+
+class StatsCounter {
+  hits = 0;
+  misses = 0;
+  insertions = 0;
+  updates = 0;
+  evictions = 0;
+  expirations = 0;
+
+  /** Count a removal by reason; explicit deletes and clears are not tracked */
+  recordRemoval(reason: EvictionReason): void {
+    if (reason === 'capacity') this.evictions++;
+    else if (reason === 'expired') this.expirations++;
+  }
+
+  snapshot(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      insertions: this.insertions,
+      updates: this.updates,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRatio: lookups === 0 ? 0 : this.hits / lookups
+    };
+  }
+
+  reset(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.insertions = 0;
+    this.updates = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  toString(): string {
+    const { hitRatio } = this.snapshot();
+    return `hits=${this.hits} misses=${this.misses} hitRatio=${(hitRatio * 100).toFixed(1)}% ` +
+      `insertions=${this.insertions} updates=${this.updates} ` +
+      `evictions=${this.evictions} expirations=${this.expirations}`;
+  }
+}
+
+// ============================================================================
+// SNAPSHOTS (serialize / deserialize)
+// ============================================================================
+
+/**
+ * Converts values to and from something JSON.stringify can handle.
+ * Keys are written as-is, so they must already be JSON-serializable.
+ */
+interface ValueCodec<V> {
+  encode(value: V): unknown;
+  decode(data: unknown): V;
+}
+
+type SnapshotType = 'lru' | 'lru-ttl' | 'lfu';
+
+interface SnapshotHeader {
+  version: 1;
+  type: SnapshotType;
+  capacity: number;
+  defaultTTL?: number;
+  softTTL?: number;
+}
+
+interface RestoreOptions<V> {
+  codec?: ValueCodec<V>;
+  /** Override the capacity recorded in the snapshot */
+  capacity?: number;
+}
+
+const identityCodec: ValueCodec<any> = {
+  encode: value => value,
+  decode: data => data
+};
+
+/**
+ * Snapshot formats:
+ * - serialize():      one JSON document, `{ ...header, entries: [...] }`
+ * - serializeLines(): JSON lines, header first, then one entry per line,
+ *                     so large caches can be streamed to and from disk
+ * Entries are ordered so that replaying them in order rebuilds the cache.
+ */
+function toSnapshot(header: SnapshotHeader, records: Iterable<unknown>): string {
+  return JSON.stringify({ ...header, entries: [...records] });
+}
+
+function* toSnapshotLines(header: SnapshotHeader, records: Iterable<unknown>): IterableIterator<string> {
+  yield JSON.stringify(header);
+  for (const record of records) {
+    yield JSON.stringify(record);
+  }
+}
+
+function checkHeader(header: SnapshotHeader, type: SnapshotType): SnapshotHeader {
+  if (header?.version !== 1) {
+    throw new Error(`Unsupported snapshot version: ${header?.version}`);
+  }
+  if (header.type !== type) {
+    throw new Error(`Expected a '${type}' snapshot, got '${header.type}'`);
+  }
+  return header;
+}
+
+function parseSnapshot<R>(data: string, type: SnapshotType): { header: SnapshotHeader; records: R[] } {
+  const { entries, ...header } = JSON.parse(data);
+  return { header: checkHeader(header, type), records: entries };
+}
+
+/**
+ * Parse a JSON-lines snapshot lazily: the header is read first, then
+ * `restore` is called for each entry as its line arrives.
+ */
+async function readSnapshotLines<R, C>(
+  lines: Iterable<string> | AsyncIterable<string>,
+  type: SnapshotType,
+  create: (header: SnapshotHeader) => C,
+  restore: (cache: C, record: R) => void
+): Promise<C> {
+  let cache: C | null = null;
+
+  for await (const line of lines) {
+    if (line.trim() === '') continue;
+
+    const parsed = JSON.parse(line);
+    if (cache === null) {
+      cache = create(checkHeader(parsed, type));
+    } else {
+      restore(cache, parsed);
+    }
+  }
+
+  if (cache === null) {
+    throw new Error("Snapshot is empty");
+  }
+  return cache;
+}
+
 // ============================================================================
 // LRU CACHE IMPLEMENTATION
 // ============================================================================
 
-class LRUCache<K, V> {
+interface LRUCacheOptions<K, V> extends EvictionCallbacks<K, V> {
+  /**
+   * Replacement strategy. Defaults to plain LRU using the cache's own list;
+   * any other policy decides the victim while the list keeps recency order.
+   */
+  policy?: EvictionPolicy<K> | EvictionPolicyName;
+
+  /**
+   * Weight of a value (e.g. its size in bytes). Defaults to 1 per entry.
+   */
+  sizeOf?: (value: V) => number;
+
+  /**
+   * Maximum total weight. Entries are evicted until the total fits;
+   * a single value heavier than this is rejected.
+   */
+  maxWeight?: number;
+}
+
+interface LRUSnapshotRecord<K> {
+  key: K;
+  value: unknown;
+}
+
+/**
+ * Implements Map<K, V>, so it can be passed anywhere a Map is expected.
+ * Differences: get() and set() update recency, and set() may evict.
+ */
+class LRUCache<K, V> implements Map<K, V> {
   private capacity: number;
   private cache: Map<K, DLLNode<K, V>>;
   private head: DLLNode<K, V> | null = null; // Most recently used
   private tail: DLLNode<K, V> | null = null; // Least recently used
+  private policy: EvictionPolicy<K> | null;
+  private sizeOf: ((value: V) => number) | null;
+  private maxWeight: number;
+  private weight = 0;
+  private notifier: EvictionNotifier<K, V>;
+  private counters = new StatsCounter();
 
-  constructor(capacity: number) {
+  constructor(capacity: number, options: LRUCacheOptions<K, V> = {}) {
     if (capacity <= 0) {
       throw new Error("Capacity must be greater than 0");
     }
+    if (options.maxWeight !== undefined && options.maxWeight <= 0) {
+      throw new Error("maxWeight must be greater than 0");
+    }
     this.capacity = capacity;
     this.cache = new Map();
+    this.policy = typeof options.policy === 'string'
+      ? createEvictionPolicy<K>(options.policy, capacity)
+      : options.policy ?? null;
+    this.sizeOf = options.sizeOf ?? null;
+    this.maxWeight = options.maxWeight ?? Infinity;
+    this.notifier = new EvictionNotifier(options);
   }
 
   /**
    * Get value by key. Returns undefined if not found.
    * Move the accessed node to head (most recently used).
    *
-   * TODO(human): Implement this method
    * Time complexity: O(1)
    */
   get(key: K): V | undefined {
-    // TODO(human): Implement this method
-    // 1. Check if key exists in cache Map
-    // 2. If not found, return undefined
-    // 3. If found, get the node from the Map
-    // 4. Move this node to head (it's now most recently used)
-    // 5. Return the node's value
+    const node = this.cache.get(key);
+    if (!node) {
+      this.counters.misses++;
+      this.policy?.onMiss?.(key);
+      return undefined;
+    }
+
+    this.counters.hits++;
+    this.moveToHead(node);
+    this.policy?.onAccess(key);
 
-    throw new Error("Not implemented");
+    return node.value;
   }
 
   /**
@@ -70,21 +344,112 @@ class LRUCache<K, V> {
    * If key exists, update value and move to head.
    * If key doesn't exist and at capacity, evict LRU item.
    *
-   * TODO(human): Implement this method
-   * Time complexity: O(1)
+   * With a weight budget, evicts until the new value fits. Returns false
+   * (and drops any previous value for the key) if the value alone is
+   * heavier than maxWeight.
+   *
+   * Time complexity: O(1), amortized over evictions
    */
-  put(key: K, value: V): void {
-    // TODO(human): Implement this method
-    // 1. Check if key already exists
-    //    - If yes: update value, move to head, done
-    // 2. If key doesn't exist:
-    //    - Check if at capacity
-    //    - If at capacity: remove tail node (LRU item)
-    //    - Create new node
-    //    - Add to head
-    //    - Add to Map
+  put(key: K, value: V): boolean {
+    const weight = this.weigh(value);
+
+    if (weight > this.maxWeight) {
+      this.remove(key, 'capacity');
+      return false;
+    }
+
+    const existing = this.cache.get(key);
+
+    if (existing) {
+      this.counters.updates++;
+
+      if (this.weight - existing.weight + weight <= this.maxWeight) {
+        const oldValue = existing.value;
+        this.weight += weight - existing.weight;
+        existing.value = value;
+        existing.weight = weight;
+        this.moveToHead(existing);
+        this.policy?.onAccess(key);
+        if (oldValue !== value) this.notifier.notify(key, oldValue, 'replaced');
+        return true;
+      }
+
+      // Growing past the budget: re-insert so eviction can't pick this key
+      this.remove(key, 'replaced');
+    }
+
+    while (this.cache.size >= this.capacity || this.weight + weight > this.maxWeight) {
+      if (!this.evict(key)) break;
+    }
+
+    if (!existing) this.counters.insertions++;
+
+    const node = new DLLNode(key, value);
+    node.weight = weight;
+    this.addToHead(node);
+    this.cache.set(key, node);
+    this.weight += weight;
+    this.policy?.onInsert(key);
+    return true;
+  }
+
+  /**
+   * Evict one entry: the tail for plain LRU, otherwise whatever the
+   * policy chooses.
+   */
+  private evict(incomingKey: K): DLLNode<K, V> | null {
+    if (!this.policy) {
+      const removed = this.removeTail();
+      if (removed) {
+        this.cache.delete(removed.key);
+        this.weight -= removed.weight;
+        this.counters.evictions++;
+        this.notifier.notify(removed.key, removed.value, 'capacity');
+      }
+      return removed;
+    }
+
+    const victimKey = this.policy.evict(incomingKey);
+    if (victimKey === undefined) return null;
+
+    const victim = this.cache.get(victimKey);
+    if (!victim) return null;
+
+    this.removeNode(victim);
+    this.cache.delete(victimKey);
+    this.weight -= victim.weight;
+    this.counters.evictions++;
+    this.notifier.notify(victim.key, victim.value, 'capacity');
+    return victim;
+  }
+
+  /**
+   * Unlink a key and report it with the given reason
+   */
+  private remove(key: K, reason: EvictionReason): boolean {
+    const node = this.cache.get(key);
+    if (!node) return false;
+
+    this.removeNode(node);
+    this.cache.delete(key);
+    this.weight -= node.weight;
+    this.policy?.onRemove(key);
+    this.counters.recordRemoval(reason);
+    this.notifier.notify(key, node.value, reason);
+    return true;
+  }
+
+  /**
+   * Weight of a value, validated
+   */
+  private weigh(value: V): number {
+    if (!this.sizeOf) return 1;
 
-    throw new Error("Not implemented");
+    const weight = this.sizeOf(value);
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`sizeOf must return a non-negative number, got ${weight}`);
+    }
+    return weight;
   }
 
   /**
@@ -157,6 +522,13 @@ class LRUCache<K, V> {
     return this.cache.size;
   }
 
+  /**
+   * Sum of the weights of all entries (equals size without sizeOf)
+   */
+  get totalWeight(): number {
+    return this.weight;
+  }
+
   /**
    * Check if cache contains key
    */
@@ -165,45 +537,205 @@ class LRUCache<K, V> {
   }
 
   /**
-   * Clear the cache
+   * Get value by key without changing recency
    */
-  clear(): void {
+  peek(key: K): V | undefined {
+    return this.cache.get(key)?.value;
+  }
+
+  /**
+   * Remove a key. Returns true if it was present.
+   */
+  delete(key: K): boolean {
+    return this.remove(key, 'deleted');
+  }
+
+  /**
+   * Clear the cache. Resolves once every pending dispose() has settled.
+   */
+  clear(): Promise<void> {
+    let current = this.notifier.active ? this.head : null;
+
     this.cache.clear();
     this.head = null;
     this.tail = null;
+    this.weight = 0;
+    this.policy?.clear();
+
+    while (current) {
+      this.notifier.notify(current.key, current.value, 'cleared');
+      current = current.next;
+    }
+
+    return this.notifier.settle();
   }
 
   /**
-   * Get all keys in order from most to least recently used
+   * Snapshot of hit/miss and mutation counters
    */
-  keys(): K[] {
-    const keys: K[] = [];
-    let current = this.head;
+  stats(): CacheStats {
+    return this.counters.snapshot();
+  }
+
+  resetStats(): void {
+    this.counters.reset();
+  }
+
+  /**
+   * Name of the active eviction policy
+   */
+  get policyName(): string {
+    return this.policy?.name ?? 'lru';
+  }
+
+  /**
+   * Keys from most to least recently used.
+   * Lazy: walks the list as it is consumed and does not touch recency.
+   */
+  *keys(): IterableIterator<K> {
+    for (const node of this.nodes()) {
+      yield node.key;
+    }
+  }
+
+  /**
+   * Values from most to least recently used (lazy)
+   */
+  *values(): IterableIterator<V> {
+    for (const node of this.nodes()) {
+      yield node.value;
+    }
+  }
+
+  /**
+   * [key, value] pairs from most to least recently used (lazy)
+   */
+  *entries(): IterableIterator<[K, V]> {
+    for (const node of this.nodes()) {
+      yield [node.key, node.value];
+    }
+  }
+
+  /**
+   * [key, value] pairs from least to most recently used (lazy)
+   */
+  *reverseEntries(): IterableIterator<[K, V]> {
+    let current = this.tail;
     while (current) {
-      keys.push(current.key);
-      current = current.next;
+      const prev: DLLNode<K, V> | null = current.prev;
+      yield [current.key, current.value];
+      current = prev;
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'LRUCache';
+  }
+
+  /**
+   * Map-style callback iteration, most to least recently used
+   */
+  forEach(callback: (value: V, key: K, map: Map<K, V>) => void, thisArg?: unknown): void {
+    for (const node of this.nodes()) {
+      callback.call(thisArg, node.value, node.key, this);
     }
-    return keys;
   }
 
   /**
-   * Get all values in order from most to least recently used
+   * Map-compatible alias for put(). Returns the cache for chaining.
+   */
+  set(key: K, value: V): this {
+    this.put(key, value);
+    return this;
+  }
+
+  /**
+   * Walk the list head to tail. The next pointer is read before yielding,
+   * so deleting the current entry mid-iteration is safe.
    */
-  values(): V[] {
-    const values: V[] = [];
+  private *nodes(): IterableIterator<DLLNode<K, V>> {
     let current = this.head;
     while (current) {
-      values.push(current.value);
-      current = current.next;
+      const next: DLLNode<K, V> | null = current.next;
+      yield current;
+      current = next;
+    }
+  }
+
+  /**
+   * Snapshot as a single JSON document (see serializeLines for streaming)
+   */
+  serialize(codec: ValueCodec<V> = identityCodec): string {
+    return toSnapshot(this.snapshotHeader(), this.snapshotRecords(codec));
+  }
+
+  /**
+   * Snapshot as JSON lines, produced lazily one entry at a time
+   */
+  serializeLines(codec: ValueCodec<V> = identityCodec): IterableIterator<string> {
+    return toSnapshotLines(this.snapshotHeader(), this.snapshotRecords(codec));
+  }
+
+  /**
+   * Rebuild a cache from serialize() output, preserving recency order.
+   * Policy state (e.g. LFU counts, ARC lists) is rebuilt by replaying the
+   * entries, not restored exactly.
+   */
+  static deserialize<K, V>(data: string, options: LRUCacheOptions<K, V> & RestoreOptions<V> = {}): LRUCache<K, V> {
+    const { header, records } = parseSnapshot<LRUSnapshotRecord<K>>(data, 'lru');
+    const cache = new LRUCache<K, V>(options.capacity ?? header.capacity, options);
+    for (const record of records) {
+      cache.put(record.key, (options.codec ?? identityCodec).decode(record.value));
+    }
+    cache.resetStats();
+    return cache;
+  }
+
+  /**
+   * Rebuild a cache from serializeLines() output, e.g. a file read with
+   * readline. Entries are restored as they are read.
+   */
+  static async deserializeLines<K, V>(
+    lines: Iterable<string> | AsyncIterable<string>,
+    options: LRUCacheOptions<K, V> & RestoreOptions<V> = {}
+  ): Promise<LRUCache<K, V>> {
+    const codec = options.codec ?? identityCodec;
+    const cache = await readSnapshotLines<LRUSnapshotRecord<K>, LRUCache<K, V>>(
+      lines,
+      'lru',
+      header => new LRUCache<K, V>(options.capacity ?? header.capacity, options),
+      (cache, record) => cache.put(record.key, codec.decode(record.value))
+    );
+    cache.resetStats();
+    return cache;
+  }
+
+  private snapshotHeader(): SnapshotHeader {
+    return { version: 1, type: 'lru', capacity: this.capacity };
+  }
+
+  /**
+   * Entries from least to most recently used, so replaying put() in
+   * order restores the same recency
+   */
+  private *snapshotRecords(codec: ValueCodec<V>): IterableIterator<LRUSnapshotRecord<K>> {
+    for (const [key, value] of this.reverseEntries()) {
+      yield { key, value: codec.encode(value) };
     }
-    return values;
   }
 
   /**
    * Debug: Print cache state
    */
   debug(): void {
-    console.log(`\nLRU Cache (${this.size}/${this.capacity}):`);
+    console.log(`\nLRU Cache (${this.size}/${this.capacity}, policy: ${this.policyName}):`);
+    if (this.sizeOf) {
+      console.log(`  Weight: ${this.weight}/${this.maxWeight}`);
+    }
     let current = this.head;
     const items: string[] = [];
     while (current) {
@@ -212,6 +744,7 @@ class LRUCache<K, V> {
     }
     console.log(`  [${items.join(' -> ')}]`);
     console.log(`  Head: ${this.head?.key}, Tail: ${this.tail?.key}`);
+    console.log(`  Stats: ${this.counters}`);
   }
 }
 
@@ -219,115 +752,912 @@ class LRUCache<K, V> {
 // ADVANCED: LRU Cache with TTL (Time To Live)
 // ============================================================================
 
+/**
+ * Per-entry lifetimes in milliseconds.
+ * - soft: after this the value is stale; get() still returns it but
+ *         triggers a background refresh
+ * - hard: after this the entry is gone
+ */
+interface TTLSpec {
+  soft: number;
+  hard: number;
+}
+
 interface CacheEntry<V> {
   value: V;
+  staleAt: number;
   expiresAt: number;
+  ttl: TTLSpec;
 }
 
-class LRUCacheWithTTL<K, V> {
-  private cache: LRUCache<K, CacheEntry<V>>;
-  private defaultTTL: number;
+interface LRUCacheWithTTLOptions<K, V> extends EvictionCallbacks<K, V> {
+  /**
+   * If set, purge expired entries in the background every N milliseconds.
+   * Call destroy() to stop the sweeper.
+   */
+  sweepInterval?: number;
 
-  constructor(capacity: number, defaultTTL: number = 60000) {
-    this.cache = new LRUCache(capacity);
-    this.defaultTTL = defaultTTL;
+  /**
+   * Default soft TTL (stale-while-revalidate). Defaults to the hard TTL,
+   * i.e. entries are never served stale.
+   */
+  softTTL?: number;
+
+  /**
+   * Reloads a stale value. Called at most once at a time per key; on
+   * failure the stale value keeps being served until the hard TTL.
+   */
+  refresher?: (key: K, staleValue: V) => Promise<V>;
+
+  /** Time source for TTLs and the sweeper (default: system clock) */
+  clock?: Clock;
+}
+
+/**
+ * Binary min-heap of entries by expiry time, so purging only touches
+ * entries that have actually expired. Replaced or removed entries stay in
+ * the heap until popped (lazy deletion); the cache checks that a popped
+ * item is still its live entry.
+ */
+class ExpiryQueue<K, V> {
+  private heap: Array<{ key: K; entry: CacheEntry<V> }> = [];
+
+  get size(): number {
+    return this.heap.length;
   }
 
-  get(key: K): V | undefined {
-    const entry = this.cache.get(key);
+  push(key: K, entry: CacheEntry<V>): void {
+    this.heap.push({ key, entry });
 
-    if (!entry) return undefined;
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.expiry(parent) <= this.expiry(i)) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
 
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      // Entry expired, treat as cache miss
-      return undefined;
+  /** The item that expires first, or undefined if empty */
+  peek(): { key: K; entry: CacheEntry<V> } | undefined {
+    return this.heap[0];
+  }
+
+  pop(): { key: K; entry: CacheEntry<V> } | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length === 0 || !last) return top;
+
+    this.heap[0] = last;
+    let i = 0;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < this.heap.length && this.expiry(left) < this.expiry(smallest)) smallest = left;
+      if (right < this.heap.length && this.expiry(right) < this.expiry(smallest)) smallest = right;
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
     }
+    return top;
+  }
 
-    return entry.value;
+  clear(): void {
+    this.heap = [];
   }
 
-  put(key: K, value: V, ttl?: number): void {
-    const expiresAt = Date.now() + (ttl ?? this.defaultTTL);
-    this.cache.put(key, { value, expiresAt });
+  private expiry(i: number): number {
+    return this.heap[i].entry.expiresAt;
   }
 
-  get size(): number {
-    return this.cache.size;
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
   }
 }
 
-// ============================================================================
+interface TTLSnapshotRecord<K> {
+  key: K;
+  value: unknown;
+  staleAt: number;   // Absolute timestamps (ms since epoch)
+  expiresAt: number;
+  ttl: TTLSpec;
+}
+
+/**
+ * Expired entries are removed as soon as they are seen (on read, or before
+ * an insert would otherwise evict a live entry), so they never hold on to
+ * capacity. size, keys() and has() only report live entries. An expiry
+ * heap finds the expired entries without scanning the live ones.
+ *
+ * Stale-while-revalidate: between an entry's soft and hard TTL, get()
+ * returns the stale value immediately and refreshes it in the background,
+ * so callers don't pay reload latency when an entry ages out.
+ */
+class LRUCacheWithTTL<K, V> {
+  private cache: LRUCache<K, CacheEntry<V>>;
+  private capacity: number;
+  private defaultTTL: number;
+  private sweepTimer: ClockTimer | null = null;
+  private clock: Clock;
+  private counters = new StatsCounter();
+  private softTTL: number | null;
+  private refresher: ((key: K, staleValue: V) => Promise<V>) | null;
+  private refreshing: Map<K, Promise<void>> = new Map();
+  private expiries = new ExpiryQueue<K, V>();
+
+  constructor(capacity: number, defaultTTL: number = 60000, options: LRUCacheWithTTLOptions<K, V> = {}) {
+    const { onEvict, dispose } = options;
+
+    // Report the unwrapped value; anything removed after its TTL is 'expired'
+    this.cache = new LRUCache(capacity, {
+      onEvict: (key, entry, reason) => {
+        const actual = this.reasonFor(entry, reason);
+        this.counters.recordRemoval(actual);
+        onEvict?.(key, entry.value, actual);
+      },
+      dispose: dispose && ((key, entry, reason) => dispose(key, entry.value, this.reasonFor(entry, reason)))
+    });
+    this.capacity = capacity;
+    this.defaultTTL = defaultTTL;
+    this.softTTL = options.softTTL ?? null;
+    this.refresher = options.refresher ?? null;
+    this.clock = options.clock ?? systemClock;
+
+    if (options.sweepInterval !== undefined) {
+      this.sweepTimer = this.clock.setInterval(() => {
+        this.purgeExpired();
+      }, options.sweepInterval);
+      // Don't keep the process alive just to sweep
+      this.sweepTimer.unref();
+    }
+  }
+
+  get(key: K): V | undefined {
+    const entry = this.cache.get(key);
+
+    if (!entry) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      // Entry expired, drop it and treat as cache miss
+      this.cache.delete(key);
+      this.counters.misses++;
+      return undefined;
+    }
+
+    if (this.clock.now() > entry.staleAt && this.refresher) {
+      // Serve stale, revalidate in the background
+      void this.refresh(key);
+    }
+
+    this.counters.hits++;
+    return entry.value;
+  }
+
+  /**
+   * `ttl` is either the hard TTL (soft TTL comes from the options) or an
+   * explicit { soft, hard } pair.
+   */
+  put(key: K, value: V, ttl?: number | TTLSpec): void {
+    if (this.cache.has(key)) {
+      this.counters.updates++;
+    } else {
+      this.counters.insertions++;
+
+      // Reclaim dead entries before the LRU would evict a live one
+      if (this.cache.size >= this.capacity) {
+        this.purgeExpired();
+      }
+    }
+
+    this.write(key, value, this.resolveTTL(ttl));
+  }
+
+  /**
+   * Reload a key through the refresher. Concurrent calls share one
+   * refresh. Resolves when the new value is stored (or the refresh
+   * failed; the old value is then kept).
+   */
+  refresh(key: K): Promise<void> {
+    const inflight = this.refreshing.get(key);
+    if (inflight) return inflight;
+
+    const entry = this.cache.peek(key);
+    const refresher = this.refresher;
+    if (!entry || !refresher) return Promise.resolve();
+
+    const refresh = Promise.resolve()
+      .then(() => refresher(key, entry.value))
+      .then(value => {
+        // Skip if the entry was replaced or removed meanwhile
+        if (this.cache.peek(key) === entry) {
+          this.write(key, value, entry.ttl);
+        }
+      })
+      .catch(error => {
+        console.error("Cache refresh error:", error);
+      })
+      .finally(() => {
+        this.refreshing.delete(key);
+      });
+
+    this.refreshing.set(key, refresh);
+    return refresh;
+  }
+
+  /**
+   * Check whether a live entry is past its soft TTL
+   */
+  isStale(key: K): boolean {
+    const entry = this.cache.peek(key);
+    return entry !== undefined && !this.isExpired(entry) && this.clock.now() > entry.staleAt;
+  }
+
+  /**
+   * Check for a live entry without changing recency
+   */
+  has(key: K): boolean {
+    const entry = this.cache.peek(key);
+    if (!entry) return false;
+
+    if (this.isExpired(entry)) {
+      this.cache.delete(key);
+      return false;
+    }
+
+    return true;
+  }
+
+  delete(key: K): boolean {
+    return this.cache.delete(key);
+  }
+
+  /**
+   * Remove every expired entry. Returns the number removed.
+   * Time complexity: O(k log n) for k expired (or replaced) entries
+   */
+  purgeExpired(): number {
+    let removed = 0;
+
+    for (let next = this.expiries.peek(); next && this.isExpired(next.entry); next = this.expiries.peek()) {
+      this.expiries.pop();
+      // Skip heap items for entries that were since replaced or removed
+      if (this.cache.peek(next.key) === next.entry) {
+        this.cache.delete(next.key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Live keys from most to least recently used
+   */
+  keys(): K[] {
+    this.purgeExpired();
+    return [...this.cache.keys()];
+  }
+
+  get size(): number {
+    this.purgeExpired();
+    return this.cache.size;
+  }
+
+  clear(): Promise<void> {
+    this.expiries.clear();
+    return this.cache.clear();
+  }
+
+  /**
+   * Stop the background sweeper and drop all entries
+   */
+  destroy(): Promise<void> {
+    if (this.sweepTimer) {
+      this.clock.clearTimer(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.expiries.clear();
+    return this.cache.clear();
+  }
+
+  private isExpired(entry: CacheEntry<V>): boolean {
+    return this.clock.now() > entry.expiresAt;
+  }
+
+  private write(key: K, value: V, ttl: TTLSpec): void {
+    const now = this.clock.now();
+    this.store(key, {
+      value,
+      staleAt: now + ttl.soft,
+      expiresAt: now + ttl.hard,
+      ttl
+    });
+  }
+
+  private store(key: K, entry: CacheEntry<V>): void {
+    this.cache.put(key, entry);
+    this.expiries.push(key, entry);
+
+    // Updates and removals leave dead heap items behind; rebuild before
+    // they outnumber the live entries
+    if (this.expiries.size > 2 * this.cache.size + 16) {
+      this.expiries.clear();
+      for (const [liveKey, liveEntry] of this.cache.entries()) {
+        this.expiries.push(liveKey, liveEntry);
+      }
+    }
+  }
+
+  private resolveTTL(ttl: number | TTLSpec | undefined): TTLSpec {
+    if (typeof ttl === 'object') {
+      if (ttl.soft > ttl.hard) {
+        throw new Error("Soft TTL must not exceed hard TTL");
+      }
+      return ttl;
+    }
+
+    const hard = ttl ?? this.defaultTTL;
+    return { soft: Math.min(this.softTTL ?? hard, hard), hard };
+  }
+
+  stats(): CacheStats {
+    return this.counters.snapshot();
+  }
+
+  resetStats(): void {
+    this.counters.reset();
+  }
+
+  /**
+   * Snapshot as a single JSON document. Expiry times are absolute, so
+   * entries restored later keep their original deadlines.
+   */
+  serialize(codec: ValueCodec<V> = identityCodec): string {
+    return toSnapshot(this.snapshotHeader(), this.snapshotRecords(codec));
+  }
+
+  /**
+   * Snapshot as JSON lines, produced lazily one entry at a time
+   */
+  serializeLines(codec: ValueCodec<V> = identityCodec): IterableIterator<string> {
+    return toSnapshotLines(this.snapshotHeader(), this.snapshotRecords(codec));
+  }
+
+  /**
+   * Rebuild from serialize() output. Entries that expired in the meantime
+   * are dropped.
+   */
+  static deserialize<K, V>(
+    data: string,
+    options: LRUCacheWithTTLOptions<K, V> & RestoreOptions<V> = {}
+  ): LRUCacheWithTTL<K, V> {
+    const { header, records } = parseSnapshot<TTLSnapshotRecord<K>>(data, 'lru-ttl');
+    const cache = LRUCacheWithTTL.fromHeader<K, V>(header, options);
+    for (const record of records) {
+      cache.restoreRecord(record, options.codec ?? identityCodec);
+    }
+    cache.resetStats();
+    return cache;
+  }
+
+  /**
+   * Rebuild from serializeLines() output as lines are read
+   */
+  static async deserializeLines<K, V>(
+    lines: Iterable<string> | AsyncIterable<string>,
+    options: LRUCacheWithTTLOptions<K, V> & RestoreOptions<V> = {}
+  ): Promise<LRUCacheWithTTL<K, V>> {
+    const codec = options.codec ?? identityCodec;
+    const cache = await readSnapshotLines<TTLSnapshotRecord<K>, LRUCacheWithTTL<K, V>>(
+      lines,
+      'lru-ttl',
+      header => LRUCacheWithTTL.fromHeader<K, V>(header, options),
+      (cache, record) => cache.restoreRecord(record, codec)
+    );
+    cache.resetStats();
+    return cache;
+  }
+
+  private static fromHeader<K, V>(
+    header: SnapshotHeader,
+    options: LRUCacheWithTTLOptions<K, V> & RestoreOptions<V>
+  ): LRUCacheWithTTL<K, V> {
+    return new LRUCacheWithTTL<K, V>(options.capacity ?? header.capacity, header.defaultTTL, {
+      softTTL: header.softTTL,
+      ...options
+    });
+  }
+
+  private snapshotHeader(): SnapshotHeader {
+    return {
+      version: 1,
+      type: 'lru-ttl',
+      capacity: this.capacity,
+      defaultTTL: this.defaultTTL,
+      softTTL: this.softTTL ?? undefined
+    };
+  }
+
+  /**
+   * Live entries from least to most recently used. Expired entries are
+   * skipped, not evicted: taking a snapshot has no side effects.
+   */
+  private *snapshotRecords(codec: ValueCodec<V>): IterableIterator<TTLSnapshotRecord<K>> {
+    for (const [key, entry] of this.cache.reverseEntries()) {
+      if (this.isExpired(entry)) continue;
+      yield {
+        key,
+        value: codec.encode(entry.value),
+        staleAt: entry.staleAt,
+        expiresAt: entry.expiresAt,
+        ttl: entry.ttl
+      };
+    }
+  }
+
+  private restoreRecord(record: TTLSnapshotRecord<K>, codec: ValueCodec<V>): void {
+    if (this.clock.now() > record.expiresAt) return;
+
+    this.store(record.key, {
+      value: codec.decode(record.value),
+      staleAt: record.staleAt,
+      expiresAt: record.expiresAt,
+      ttl: record.ttl
+    });
+  }
+
+  /**
+   * Debug: Print live entries and stats
+   */
+  debug(): void {
+    const keys = this.keys();
+    console.log(`\nLRU Cache with TTL (${keys.length}/${this.capacity}, default TTL ${this.defaultTTL}ms):`);
+    console.log(`  [${keys.join(' -> ')}]`);
+    console.log(`  Stats: ${this.counters}`);
+  }
+
+  private reasonFor(entry: CacheEntry<V>, reason: EvictionReason): EvictionReason {
+    return reason !== 'cleared' && this.isExpired(entry) ? 'expired' : reason;
+  }
+}
+
+// ============================================================================
 // ADVANCED: LFU Cache (Least Frequently Used)
 // ============================================================================
 
 /**
  * LFU Cache evicts the least frequently used item.
  * If there's a tie, evict the least recently used among them.
+ *
+ * LeetCode #460 - O(1) design:
+ * - Hash map from key to node
+ * - One doubly linked list per frequency (head = most recent)
+ * - `minFreq` tracks the lowest frequency present, so the victim is
+ *   always the tail of the `minFreq` list
+ *
+ * Recency ties are resolved by list position, not timestamps, so two
+ * accesses in the same millisecond are still ordered correctly.
  */
+class LFUNode<K, V> {
+  key: K;
+  value: V;
+  freq = 1;
+  prev: LFUNode<K, V> | null = null;
+  next: LFUNode<K, V> | null = null;
+
+  constructor(key: K, value: V) {
+    this.key = key;
+    this.value = value;
+  }
+}
+
+class FrequencyList<K, V> {
+  head: LFUNode<K, V> | null = null; // Most recently used at this frequency
+  tail: LFUNode<K, V> | null = null; // Least recently used at this frequency
+  size = 0;
+
+  addToHead(node: LFUNode<K, V>): void {
+    node.prev = null;
+    node.next = this.head;
+    if (this.head) this.head.prev = node;
+    this.head = node;
+    if (!this.tail) this.tail = node;
+    this.size++;
+  }
+
+  remove(node: LFUNode<K, V>): void {
+    if (node.prev) node.prev.next = node.next;
+    else this.head = node.next;
+
+    if (node.next) node.next.prev = node.prev;
+    else this.tail = node.prev;
+
+    node.prev = null;
+    node.next = null;
+    this.size--;
+  }
+
+  removeTail(): LFUNode<K, V> | null {
+    const removed = this.tail;
+    if (removed) this.remove(removed);
+    return removed;
+  }
+}
+
+type LFUCacheOptions<K, V> = EvictionCallbacks<K, V>;
+
+interface LFUSnapshotRecord<K> {
+  key: K;
+  value: unknown;
+  freq: number;
+}
+
 class LFUCache<K, V> {
   private capacity: number;
-  private cache: Map<K, { value: V; freq: number; lastUsed: number }>;
+  private cache: Map<K, LFUNode<K, V>>;
+  private freqLists: Map<number, FrequencyList<K, V>> = new Map();
   private minFreq = 0;
+  private notifier: EvictionNotifier<K, V>;
+  private counters = new StatsCounter();
 
-  constructor(capacity: number) {
+  constructor(capacity: number, options: LFUCacheOptions<K, V> = {}) {
     this.capacity = capacity;
     this.cache = new Map();
+    this.notifier = new EvictionNotifier(options);
   }
 
+  /**
+   * Time complexity: O(1)
+   */
   get(key: K): V | undefined {
-    const entry = this.cache.get(key);
-    if (!entry) return undefined;
-
-    // Increment frequency
-    entry.freq++;
-    entry.lastUsed = Date.now();
-    this.cache.set(key, entry);
+    const node = this.cache.get(key);
+    if (!node) {
+      this.counters.misses++;
+      return undefined;
+    }
 
-    return entry.value;
+    this.counters.hits++;
+    this.touch(node);
+    return node.value;
   }
 
+  /**
+   * Time complexity: O(1)
+   */
   put(key: K, value: V): void {
     if (this.capacity === 0) return;
 
     const existing = this.cache.get(key);
 
     if (existing) {
-      // Update existing
+      this.counters.updates++;
+      const oldValue = existing.value;
       existing.value = value;
-      existing.freq++;
-      existing.lastUsed = Date.now();
-      this.cache.set(key, existing);
+      this.touch(existing);
+      if (oldValue !== value) this.notifier.notify(key, oldValue, 'replaced');
       return;
     }
 
-    // New key - check capacity
     if (this.cache.size >= this.capacity) {
-      // Find least frequently used, then least recently used
-      let minFreq = Infinity;
-      let minLastUsed = Infinity;
-      let keyToEvict: K | null = null;
-
-      for (const [k, v] of this.cache.entries()) {
-        if (v.freq < minFreq || (v.freq === minFreq && v.lastUsed < minLastUsed)) {
-          minFreq = v.freq;
-          minLastUsed = v.lastUsed;
-          keyToEvict = k;
-        }
+      this.evict();
+    }
+
+    this.counters.insertions++;
+    const node = new LFUNode(key, value);
+    this.listFor(1).addToHead(node);
+    this.cache.set(key, node);
+    this.minFreq = 1;
+  }
+
+  /**
+   * Move a node from its frequency list to the next one up
+   */
+  private touch(node: LFUNode<K, V>): void {
+    const list = this.freqLists.get(node.freq)!;
+    list.remove(node);
+
+    if (list.size === 0) {
+      this.freqLists.delete(node.freq);
+      if (this.minFreq === node.freq) this.minFreq++;
+    }
+
+    node.freq++;
+    this.listFor(node.freq).addToHead(node);
+  }
+
+  /**
+   * Remove the least recently used node of the lowest frequency
+   */
+  private evict(): LFUNode<K, V> | null {
+    const list = this.freqLists.get(this.minFreq);
+    if (!list) return null;
+
+    const victim = list.removeTail();
+    if (list.size === 0) this.freqLists.delete(this.minFreq);
+    if (victim) {
+      this.cache.delete(victim.key);
+      this.counters.evictions++;
+      this.notifier.notify(victim.key, victim.value, 'capacity');
+    }
+
+    return victim;
+  }
+
+  private listFor(freq: number): FrequencyList<K, V> {
+    let list = this.freqLists.get(freq);
+    if (!list) {
+      list = new FrequencyList();
+      this.freqLists.set(freq, list);
+    }
+    return list;
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  has(key: K): boolean {
+    return this.cache.has(key);
+  }
+
+  /**
+   * Access count for a key (0 if absent)
+   */
+  frequency(key: K): number {
+    return this.cache.get(key)?.freq ?? 0;
+  }
+
+  /**
+   * Remove a key. Returns true if it was present.
+   */
+  delete(key: K): boolean {
+    const node = this.cache.get(key);
+    if (!node) return false;
+
+    const list = this.freqLists.get(node.freq)!;
+    list.remove(node);
+    if (list.size === 0) this.freqLists.delete(node.freq);
+    // minFreq may now point at a missing list; the next insert resets it
+    // to 1, and evict() is only reached when the cache is full
+    this.cache.delete(key);
+
+    this.notifier.notify(key, node.value, 'deleted');
+    return true;
+  }
+
+  /**
+   * Clear the cache. Resolves once every pending dispose() has settled.
+   */
+  clear(): Promise<void> {
+    const nodes = this.notifier.active ? [...this.cache.values()] : [];
+
+    this.cache.clear();
+    this.freqLists.clear();
+    this.minFreq = 0;
+
+    for (const node of nodes) {
+      this.notifier.notify(node.key, node.value, 'cleared');
+    }
+
+    return this.notifier.settle();
+  }
+
+  stats(): CacheStats {
+    return this.counters.snapshot();
+  }
+
+  resetStats(): void {
+    this.counters.reset();
+  }
+
+  /**
+   * Snapshot as a single JSON document, preserving frequencies and the
+   * recency order within each frequency
+   */
+  serialize(codec: ValueCodec<V> = identityCodec): string {
+    return toSnapshot(this.snapshotHeader(), this.snapshotRecords(codec));
+  }
+
+  /**
+   * Snapshot as JSON lines, produced lazily one entry at a time
+   */
+  serializeLines(codec: ValueCodec<V> = identityCodec): IterableIterator<string> {
+    return toSnapshotLines(this.snapshotHeader(), this.snapshotRecords(codec));
+  }
+
+  static deserialize<K, V>(data: string, options: LFUCacheOptions<K, V> & RestoreOptions<V> = {}): LFUCache<K, V> {
+    const { header, records } = parseSnapshot<LFUSnapshotRecord<K>>(data, 'lfu');
+    const cache = new LFUCache<K, V>(options.capacity ?? header.capacity, options);
+    for (const record of records) {
+      cache.restoreRecord(record, options.codec ?? identityCodec);
+    }
+    cache.resetStats();
+    return cache;
+  }
+
+  static async deserializeLines<K, V>(
+    lines: Iterable<string> | AsyncIterable<string>,
+    options: LFUCacheOptions<K, V> & RestoreOptions<V> = {}
+  ): Promise<LFUCache<K, V>> {
+    const codec = options.codec ?? identityCodec;
+    const cache = await readSnapshotLines<LFUSnapshotRecord<K>, LFUCache<K, V>>(
+      lines,
+      'lfu',
+      header => new LFUCache<K, V>(options.capacity ?? header.capacity, options),
+      (cache, record) => cache.restoreRecord(record, codec)
+    );
+    cache.resetStats();
+    return cache;
+  }
+
+  private snapshotHeader(): SnapshotHeader {
+    return { version: 1, type: 'lfu', capacity: this.capacity };
+  }
+
+  /**
+   * Lowest frequency first; within a frequency, least recent first.
+   * Restoring in this order rebuilds identical lists.
+   */
+  private *snapshotRecords(codec: ValueCodec<V>): IterableIterator<LFUSnapshotRecord<K>> {
+    const freqs = [...this.freqLists.keys()].sort((a, b) => a - b);
+    for (const freq of freqs) {
+      let current = this.freqLists.get(freq)!.tail;
+      while (current) {
+        yield { key: current.key, value: codec.encode(current.value), freq };
+        current = current.prev;
+      }
+    }
+  }
+
+  /**
+   * Insert a node with a known frequency. Records arrive in ascending
+   * frequency, so if the cache is smaller than the snapshot the least
+   * frequently used entries are the ones dropped.
+   */
+  private restoreRecord(record: LFUSnapshotRecord<K>, codec: ValueCodec<V>): void {
+    if (this.capacity === 0 || this.cache.has(record.key)) return;
+
+    if (this.cache.size >= this.capacity) {
+      this.evict();
+      if (!this.freqLists.has(this.minFreq)) {
+        this.minFreq = Math.min(...this.freqLists.keys(), record.freq);
       }
+    }
+
+    const node = new LFUNode(record.key, codec.decode(record.value));
+    node.freq = record.freq;
+    this.listFor(node.freq).addToHead(node);
+    this.cache.set(node.key, node);
+    this.minFreq = this.cache.size === 1 ? node.freq : Math.min(this.minFreq, node.freq);
+  }
 
-      if (keyToEvict !== null) {
-        this.cache.delete(keyToEvict);
+  /**
+   * Debug: Print entries grouped by frequency (lowest first)
+   */
+  debug(): void {
+    console.log(`\nLFU Cache (${this.size}/${this.capacity}, minFreq: ${this.minFreq}):`);
+    const freqs = [...this.freqLists.keys()].sort((a, b) => a - b);
+    for (const freq of freqs) {
+      const items: string[] = [];
+      let current = this.freqLists.get(freq)!.head;
+      while (current) {
+        items.push(`${current.key}:${current.value}`);
+        current = current.next;
       }
+      console.log(`  freq ${freq}: [${items.join(' -> ')}]`);
     }
+    console.log(`  Stats: ${this.counters}`);
+  }
+}
+
+// ============================================================================
+// ADVANCED: ARC and W-TinyLFU Caches
+// ============================================================================
+
+/**
+ * Shared surface for caches whose replacement is decided by a fixed
+ * policy. The LRUCache does the storage; the policy picks victims.
+ */
+abstract class PolicyCache<K, V> {
+  protected cache: LRUCache<K, V>;
+
+  constructor(capacity: number, policy: EvictionPolicy<K>, options: EvictionCallbacks<K, V>) {
+    this.cache = new LRUCache(capacity, { ...options, policy });
+  }
+
+  get(key: K): V | undefined {
+    return this.cache.get(key);
+  }
+
+  /** Returns false if nothing could be stored */
+  put(key: K, value: V): boolean {
+    return this.cache.put(key, value);
+  }
+
+  has(key: K): boolean {
+    return this.cache.has(key);
+  }
 
-    // Add new entry
-    this.cache.set(key, { value, freq: 1, lastUsed: Date.now() });
+  delete(key: K): boolean {
+    return this.cache.delete(key);
+  }
+
+  clear(): Promise<void> {
+    return this.cache.clear();
   }
 
   get size(): number {
     return this.cache.size;
   }
+
+  keys(): K[] {
+    return [...this.cache.keys()];
+  }
+
+  stats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  resetStats(): void {
+    this.cache.resetStats();
+  }
+
+  debug(): void {
+    this.cache.debug();
+  }
+}
+
+/**
+ * Adaptive Replacement Cache (Megiddo & Modha, 2003)
+ *
+ * Splits the cache between recently-seen-once (T1) and seen-twice (T2)
+ * keys, and remembers recently evicted keys (ghosts B1/B2). A hit on a
+ * ghost shows which side was too small, so the split adapts to the
+ * workload. A one-off scan only churns T1, leaving the hot set in T2.
+ */
+class ARCCache<K, V> extends PolicyCache<K, V> {
+  private policy: ARCPolicy<K>;
+
+  constructor(capacity: number, options: EvictionCallbacks<K, V> = {}) {
+    const policy = new ARCPolicy<K>(capacity);
+    super(capacity, policy, options);
+    this.policy = policy;
+  }
+
+  /** Current target size of the recency side (ARC's `p`) */
+  get target(): number {
+    return this.policy.target;
+  }
+}
+
+/**
+ * W-TinyLFU (the policy behind Caffeine)
+ *
+ * New keys enter a small LRU window. When the window overflows, its
+ * oldest key only gets into the main area if a count-min sketch says it
+ * is accessed more often than main's victim. A doorkeeper bloom filter
+ * keeps one-hit wonders out of the sketch, and counters are halved
+ * periodically so popularity can change over time.
+ *
+ * Near-LFU hit ratios with LRU-like O(1) cost and little metadata.
+ */
+class WTinyLFUCache<K, V> extends PolicyCache<K, V> {
+  private policy: WTinyLFUPolicy<K>;
+
+  constructor(capacity: number, options: EvictionCallbacks<K, V> = {}) {
+    const policy = new WTinyLFUPolicy<K>(capacity);
+    super(capacity, policy, options);
+    this.policy = policy;
+  }
+
+  /** Estimated access frequency, including keys not in the cache */
+  frequency(key: K): number {
+    return this.policy.frequency(key);
+  }
 }
 
 // ============================================================================
@@ -348,4 +1678,27 @@ const userCache = new LRUCache<string, User>(100);
 // Example 3: LRU with TTL
 const sessionCache = new LRUCacheWithTTL<string, { token: string }>(1000, 3600000); // 1 hour TTL
 
-export { LRUCache, LRUCacheWithTTL, LFUCache };
+// Example 4: Policy chosen by configuration (scan-resistant ARC)
+//
+//   const batchCache = new LRUCache<string, string>(1000, { policy: 'arc' });
+
+// Example 5: Hot keys survive bursts of one-off lookups
+//
+//   const catalogCache = new WTinyLFUCache<string, string>(10000);
+
+export {
+  LRUCache,
+  LRUCacheWithTTL,
+  LFUCache,
+  ARCCache,
+  WTinyLFUCache,
+  type LRUCacheOptions,
+  type LRUCacheWithTTLOptions,
+  type LFUCacheOptions,
+  type EvictionCallbacks,
+  type EvictionReason,
+  type CacheStats,
+  type TTLSpec,
+  type ValueCodec,
+  type RestoreOptions
+};
@@ -0,0 +1,359 @@
+/**
+ * Mini Redis
+ *
+ * A tiny TCP server speaking enough of the Redis protocol (RESP) for
+ * RedisRateLimitStore, so DistributedRateLimiter can be tested against a
+ * real network round trip without installing Redis.
+ *
+ * Supported: PING, GET, SET key value [PX ms], INCR, PEXPIRE, DEL, and
+ * optimistic transactions with WATCH / UNWATCH / MULTI / EXEC / DISCARD.
+ *
+ * Key Concepts:
+ * - RESP: every command is an array of bulk strings
+ *   (*2\r\n$3\r\nGET\r\n$4\r\nuser\r\n); replies are simple strings,
+ *   errors, integers, bulk strings or arrays
+ * - Single-threaded like Redis: each command runs to completion before
+ *   the next, so every command is atomic on its own
+ * - WATCH remembers a key's version; EXEC returns a null array instead of
+ *   running the transaction if any watched key changed since
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'net';
+import { systemClock, type Clock } from './clock';
+
+// ============================================================================
+// RESP (REDIS SERIALIZATION PROTOCOL)
+// ============================================================================
+
+/** A parsed reply; error replies become Error instances */
+type RespValue = string | number | null | Error | RespValue[];
+
+/**
+ * Encode a command as an array of bulk strings
+ */
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+/**
+ * Incremental parser: TCP delivers bytes in arbitrary chunks, so a value
+ * may arrive split across several reads (or several values in one read).
+ */
+class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /** Append a chunk and return every value it completes */
+  feed(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    const values: RespValue[] = [];
+    let offset = 0;
+    let parsed = this.parse(offset);
+    while (parsed) {
+      values.push(parsed.value);
+      offset = parsed.next;
+      parsed = this.parse(offset);
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+    return values;
+  }
+
+  /** Value starting at `offset`, or undefined if it hasn't fully arrived */
+  private parse(offset: number): { value: RespValue; next: number } | undefined {
+    const lineEnd = this.buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return undefined;
+
+    const type = String.fromCharCode(this.buffer[offset]);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+      case '+':
+        return { value: line, next };
+      case '-':
+        return { value: new Error(line), next };
+      case ':':
+        return { value: Number(line), next };
+      case '$': {
+        const length = Number(line);
+        if (length < 0) return { value: null, next };
+        if (this.buffer.length < next + length + 2) return undefined;
+        return { value: this.buffer.toString('utf8', next, next + length), next: next + length + 2 };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count < 0) return { value: null, next };
+
+        const items: RespValue[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(cursor);
+          if (!item) return undefined;
+          items.push(item.value);
+          cursor = item.next;
+        }
+        return { value: items, next: cursor };
+      }
+      default:
+        throw new Error(`Unexpected RESP type "${type}"`);
+    }
+  }
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/** Already-encoded reply (simple strings and the null array) */
+interface RawReply {
+  raw: string;
+}
+
+type Reply = string | number | null | Error | RawReply | Reply[];
+
+const OK: RawReply = { raw: '+OK\r\n' };
+const QUEUED: RawReply = { raw: '+QUEUED\r\n' };
+const PONG: RawReply = { raw: '+PONG\r\n' };
+const NULL_ARRAY: RawReply = { raw: '*-1\r\n' };
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (typeof reply === 'string') return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  return reply.raw;
+}
+
+function wrongArgs(command: string): Error {
+  return new Error(`ERR wrong number of arguments for '${command.toLowerCase()}' command`);
+}
+
+interface Entry {
+  value: string;
+  expiresAt: number | null; // null = no expiry
+}
+
+/** Per-connection transaction state */
+interface Connection {
+  queued: string[][] | null; // commands since MULTI; null = not in a transaction
+  watched: Map<string, number>; // key -> version when WATCHed
+}
+
+interface MiniRedisStats {
+  commands: number;
+  abortedTransactions: number;
+}
+
+class MiniRedisServer {
+  private data: Map<string, Entry> = new Map();
+  private versions: Map<string, number> = new Map(); // never-written key = version 0
+  private writes = 0;
+  private server: Server;
+  private sockets: Set<Socket> = new Set();
+  readonly stats: MiniRedisStats = { commands: 0, abortedTransactions: 0 };
+
+  constructor(private clock: Clock = systemClock) {
+    this.server = createServer(socket => this.accept(socket));
+  }
+
+  /**
+   * Start listening. Port 0 picks a free port; the chosen port is returned.
+   */
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve((this.server.address() as AddressInfo).port);
+      });
+    });
+  }
+
+  /** Stop listening and drop every open connection */
+  close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+    return new Promise((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private accept(socket: Socket): void {
+    const parser = new RespParser();
+    const connection: Connection = { queued: null, watched: new Map() };
+
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy()); // client went away
+
+    socket.on('data', chunk => {
+      let requests: RespValue[];
+      try {
+        requests = parser.feed(chunk);
+      } catch (error) {
+        socket.end(encodeReply(new Error(`ERR Protocol error: ${(error as Error).message}`)));
+        return;
+      }
+
+      const replies = requests.map(request => encodeReply(this.handle(connection, request)));
+      if (replies.length > 0) {
+        socket.write(replies.join(''));
+      }
+    });
+  }
+
+  private handle(connection: Connection, request: RespValue): Reply {
+    if (!Array.isArray(request) || request.length === 0 || !request.every(arg => typeof arg === 'string')) {
+      return new Error('ERR Protocol error: expected an array of bulk strings');
+    }
+
+    const [name, ...args] = request as string[];
+    const command = name.toUpperCase();
+
+    switch (command) {
+      case 'MULTI':
+        if (connection.queued) return new Error('ERR MULTI calls can not be nested');
+        connection.queued = [];
+        return OK;
+      case 'EXEC':
+        return this.exec(connection);
+      case 'DISCARD':
+        if (!connection.queued) return new Error('ERR DISCARD without MULTI');
+        connection.queued = null;
+        connection.watched.clear();
+        return OK;
+      case 'WATCH':
+        if (connection.queued) return new Error('ERR WATCH inside MULTI is not allowed');
+        if (args.length === 0) return wrongArgs(command);
+        for (const key of args) {
+          connection.watched.set(key, this.version(key));
+        }
+        return OK;
+      case 'UNWATCH':
+        connection.watched.clear();
+        return OK;
+    }
+
+    if (connection.queued) {
+      connection.queued.push([command, ...args]);
+      return QUEUED;
+    }
+    return this.execute(command, args);
+  }
+
+  private exec(connection: Connection): Reply {
+    const queued = connection.queued;
+    if (!queued) return new Error('ERR EXEC without MULTI');
+
+    const dirty = [...connection.watched].some(([key, version]) => this.version(key) !== version);
+    connection.queued = null;
+    connection.watched.clear();
+
+    if (dirty) {
+      this.stats.abortedTransactions++;
+      return NULL_ARRAY;
+    }
+    return queued.map(([command, ...args]) => this.execute(command, args));
+  }
+
+  private execute(command: string, args: string[]): Reply {
+    this.stats.commands++;
+
+    switch (command) {
+      case 'PING':
+        return PONG;
+
+      case 'GET':
+        if (args.length !== 1) return wrongArgs(command);
+        return this.lookup(args[0])?.value ?? null;
+
+      case 'SET': {
+        if (args.length !== 2 && args.length !== 4) return wrongArgs(command);
+        const [key, value, option, ms] = args;
+        if (option === undefined) {
+          this.write(key, { value, expiresAt: null });
+          return OK;
+        }
+        if (option.toUpperCase() !== 'PX') return new Error('ERR syntax error');
+        const expiry = Number(ms);
+        if (!Number.isInteger(expiry) || expiry <= 0) return new Error("ERR invalid expire time in 'set' command");
+        this.write(key, { value, expiresAt: this.clock.now() + expiry });
+        return OK;
+      }
+
+      case 'INCR': {
+        if (args.length !== 1) return wrongArgs(command);
+        const entry = this.lookup(args[0]);
+        if (entry && !/^-?\d+$/.test(entry.value)) {
+          return new Error('ERR value is not an integer or out of range');
+        }
+        const next = (entry ? Number(entry.value) : 0) + 1;
+        this.write(args[0], { value: String(next), expiresAt: entry?.expiresAt ?? null });
+        return next;
+      }
+
+      case 'PEXPIRE': {
+        if (args.length !== 2) return wrongArgs(command);
+        const ms = Number(args[1]);
+        if (!Number.isInteger(ms)) return new Error('ERR value is not an integer or out of range');
+        const entry = this.lookup(args[0]);
+        if (!entry) return 0;
+        if (ms <= 0) {
+          this.remove(args[0]);
+        } else {
+          this.write(args[0], { value: entry.value, expiresAt: this.clock.now() + ms });
+        }
+        return 1;
+      }
+
+      case 'DEL': {
+        if (args.length === 0) return wrongArgs(command);
+        let removed = 0;
+        for (const key of args) {
+          if (this.lookup(key)) {
+            this.remove(key);
+            removed++;
+          }
+        }
+        return removed;
+      }
+
+      default:
+        return new Error(`ERR unknown command '${command.toLowerCase()}'`);
+    }
+  }
+
+  /** Entry for a key, dropping it if expired */
+  private lookup(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== null && this.clock.now() >= entry.expiresAt) {
+      this.remove(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private version(key: string): number {
+    this.lookup(key); // an expiry counts as a change
+    return this.versions.get(key) ?? 0;
+  }
+
+  private write(key: string, entry: Entry): void {
+    this.data.set(key, entry);
+    this.versions.set(key, ++this.writes);
+  }
+
+  /**
+   * Deleting is a change too: keep a fresh version rather than going back
+   * to 0, or WATCH on an absent key would miss a SET followed by a DEL
+   */
+  private remove(key: string): void {
+    this.data.delete(key);
+    this.versions.set(key, ++this.writes);
+  }
+}
+
+export { MiniRedisServer, RespParser, encodeCommand, type RespValue, type MiniRedisStats };
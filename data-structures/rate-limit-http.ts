@@ -0,0 +1,250 @@
+/**
+ * HTTP Adapters for Rate Limiting
+ *
+ * Mount any Limiter (or the declarative rules from rate-limit-rules.ts) on
+ * a real server. Every adapter does the same three things: translate the
+ * framework's request into a RateLimitRequest, ask createRateLimitCheck()
+ * for a decision, and write the headers (plus a 429 when denied, or a 503
+ * when the limiter is down and failing closed) back in the framework's own
+ * way.
+ *
+ * - nodeRateLimit:    wraps a Node.js http request listener
+ * - expressRateLimit: Express / Connect middleware (req, res, next)
+ * - fastifyRateLimit: Fastify onRequest hook (request, reply)
+ * - fetchRateLimit:   wraps a fetch-API handler (Request -> Response), as
+ *                     used by Deno, Bun, Cloudflare Workers and Next.js
+ *
+ * Key Concepts:
+ * - Adapters, not forks: the limiting logic lives in one place
+ * - Client IP: behind a load balancer the socket address is the balancer's,
+ *   so X-Forwarded-For is used only when the proxy is trusted
+ */
+
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
+import {
+  createRateLimitCheck,
+  type Limiter,
+  type RateLimitDecision,
+  type RateLimitMiddlewareOptions,
+  type RateLimitRequest,
+  type RequestLimiter
+} from './rate-limiter';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Options of the adapters that read the client IP themselves (Node http
+ * and fetch). Express and Fastify have their own trust proxy setting.
+ */
+interface HttpRateLimitOptions extends RateLimitMiddlewareOptions {
+  /**
+   * Take the client IP from the first X-Forwarded-For address. Only enable
+   * behind a proxy that sets the header, or clients can pick their own key.
+   */
+  trustProxy?: boolean;
+}
+
+/** The parts of an Express request the adapter reads */
+interface ExpressRequest extends IncomingMessage {
+  ip?: string;          // Honors Express's own "trust proxy" setting
+  originalUrl?: string; // Full path even inside a mounted router
+  user?: { id: string };
+}
+
+/** The parts of a Fastify request and reply the hook uses */
+interface FastifyRequest {
+  ip: string;
+  method: string;
+  url: string;
+  headers: IncomingHttpHeaders;
+  user?: { id: string };
+}
+
+interface FastifyReply {
+  code(statusCode: number): FastifyReply;
+  header(name: string, value: string): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+}
+
+interface FetchRateLimitOptions extends HttpRateLimitOptions {
+  /**
+   * Client IP. A fetch Request doesn't carry one; runtimes expose it in
+   * their own way (e.g. Deno's info.remoteAddr). With trustProxy the first
+   * X-Forwarded-For address wins. Default: 'unknown', one bucket shared by
+   * every client.
+   */
+  clientIp?: (request: Request) => string | undefined;
+  /** Signed-in user id, if any; keys the limit instead of the IP */
+  userId?: (request: Request) => string | undefined;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function firstForwardedFor(value: string | string[] | null | undefined): string | undefined {
+  const header = Array.isArray(value) ? value[0] : value;
+  const first = header?.split(',')[0].trim();
+  return first || undefined;
+}
+
+function fromNodeRequest(req: IncomingMessage, trustProxy: boolean): RateLimitRequest {
+  const forwarded = trustProxy ? firstForwardedFor(req.headers['x-forwarded-for']) : undefined;
+
+  return {
+    ip: forwarded ?? req.socket.remoteAddress ?? 'unknown',
+    method: req.method,
+    path: req.url,
+    headers: req.headers
+  };
+}
+
+/** Write the decision to a Node.js response; true if the request may continue */
+function applyToNodeResponse(res: ServerResponse, decision: RateLimitDecision): boolean {
+  for (const [name, value] of Object.entries(decision.headers)) {
+    res.setHeader(name, value);
+  }
+
+  if (!decision.allowed) {
+    res.statusCode = decision.status ?? 429;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(decision.body));
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+/**
+ * Wrap a Node.js http request listener:
+ *
+ *   http.createServer(nodeRateLimit(limiter, (req, res) => { ... }))
+ */
+function nodeRateLimit(
+  source: Limiter | RequestLimiter,
+  listener: (req: IncomingMessage, res: ServerResponse) => void,
+  options: HttpRateLimitOptions = {}
+) {
+  const check = createRateLimitCheck(source, options);
+
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const decision = await check(fromNodeRequest(req, options.trustProxy ?? false));
+    if (applyToNodeResponse(res, decision)) {
+      listener(req, res);
+    }
+  };
+}
+
+/**
+ * Express (or Connect) middleware. Express's request and response extend
+ * Node's, so this only relies on Node.js APIs plus req.ip and req.user.
+ * The client IP is req.ip, so Express's "trust proxy" setting decides
+ * whether X-Forwarded-For counts:
+ *
+ *   app.set('trust proxy', 1)
+ *   app.use(expressRateLimit(rules))
+ */
+function expressRateLimit(source: Limiter | RequestLimiter, options: RateLimitMiddlewareOptions = {}) {
+  const check = createRateLimitCheck(source, options);
+
+  return async (req: ExpressRequest, res: ServerResponse, next: (error?: unknown) => void): Promise<void> => {
+    const base = fromNodeRequest(req, false);
+    const decision = await check({
+      ...base,
+      ip: req.ip ?? base.ip,
+      path: req.originalUrl ?? req.url,
+      user: req.user
+    });
+
+    if (applyToNodeResponse(res, decision)) {
+      next();
+    }
+  };
+}
+
+/**
+ * Fastify onRequest hook. Sending the reply from the hook ends the request
+ * before it reaches the route handler. The client IP is request.ip, so
+ * Fastify's trustProxy option decides whether X-Forwarded-For counts:
+ *
+ *   fastify.addHook('onRequest', fastifyRateLimit(limiter))
+ */
+function fastifyRateLimit(source: Limiter | RequestLimiter, options: RateLimitMiddlewareOptions = {}) {
+  const check = createRateLimitCheck(source, options);
+
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | undefined> => {
+    const decision = await check({
+      ip: request.ip,
+      method: request.method,
+      path: request.url,
+      headers: request.headers,
+      user: request.user
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      reply.header(name, value);
+    }
+
+    if (!decision.allowed) {
+      return reply.code(decision.status ?? 429).send(decision.body);
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Wrap a fetch-API handler:
+ *
+ *   export default { fetch: fetchRateLimit(limiter, request => new Response('ok')) }
+ */
+function fetchRateLimit(
+  source: Limiter | RequestLimiter,
+  handler: (request: Request) => Response | Promise<Response>,
+  options: FetchRateLimitOptions = {}
+) {
+  const check = createRateLimitCheck(source, options);
+
+  return async (request: Request): Promise<Response> => {
+    const userId = options.userId?.(request);
+    const forwarded = options.trustProxy ? firstForwardedFor(request.headers.get('x-forwarded-for')) : undefined;
+    const decision = await check({
+      ip: forwarded ?? options.clientIp?.(request) ?? 'unknown',
+      method: request.method,
+      path: new URL(request.url).pathname,
+      headers: Object.fromEntries(request.headers.entries()),
+      user: userId ? { id: userId } : undefined
+    });
+
+    if (!decision.allowed) {
+      return new Response(JSON.stringify(decision.body), {
+        status: decision.status ?? 429,
+        headers: { ...decision.headers, 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Headers of a fetched Response are immutable, so add ours to a copy
+    const response = await handler(request);
+    const limited = new Response(response.body, response);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      limited.headers.set(name, value);
+    }
+    return limited;
+  };
+}
+
+export {
+  nodeRateLimit,
+  expressRateLimit,
+  fastifyRateLimit,
+  fetchRateLimit,
+  type HttpRateLimitOptions,
+  type FetchRateLimitOptions,
+  type ExpressRequest,
+  type FastifyRequest,
+  type FastifyReply
+};
@@ -0,0 +1,234 @@
+/**
+ * Tiered Rate Limit Policies
+ *
+ * Real APIs rarely have a single limit. A free-tier request might have to
+ * pass "5 per second" (burst), "100 per minute" and "1000 per day" for the
+ * user, plus "5000 per day" shared by everyone in the user's organization.
+ *
+ * A policy groups those limits into tiers and checks a request against
+ * all of them at once.
+ *
+ * Key Concepts:
+ * - All or nothing: every limit is checked before any tokens are taken, so
+ *   a request denied by the daily limit doesn't burn per-second tokens
+ * - Scopes: each limit keys its buckets by one attribute of the request
+ *   subject ('user', 'org', 'ip', ...), so per-user and per-org limits
+ *   live side by side
+ * - The result names the limit that was hit (limitedBy), which is what
+ *   the client needs to decide how long to back off
+ */
+
+import { systemClock, type Clock } from './clock';
+import { RateLimiter, type RateLimitConfig, type RateLimitResult } from './rate-limiter';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One token bucket limit within a tier
+ */
+interface LimitRule extends RateLimitConfig {
+  name: string;  // Reported as limitedBy when this limit denies a request
+  scope: string; // Subject attribute that keys the bucket, e.g. 'user' or 'org'
+}
+
+/**
+ * Who is making the request, e.g. { user: 'u_42', org: 'acme' }
+ */
+type Subject = Record<string, string>;
+
+interface RateLimitPolicyOptions {
+  tiers: Record<string, LimitRule[]>;
+  defaultTier: string;
+  /** Tier for a subject (e.g. from its billing plan); undefined = defaultTier */
+  tierOf?: (subject: Subject) => string | undefined;
+  clock?: Clock;
+}
+
+interface PolicyResult extends RateLimitResult {
+  tier: string;
+  /** The denying limit with the longest wait (set only when denied) */
+  limitedBy?: string;
+  /** Every limit's own result, by rule name */
+  limits: Record<string, RateLimitResult>;
+}
+
+interface TierLimit {
+  rule: LimitRule;
+  limiter: RateLimiter;
+}
+
+// ============================================================================
+// POLICY
+// ============================================================================
+
+class RateLimitPolicy {
+  private tiers: Map<string, TierLimit[]> = new Map();
+  private defaultTier: string;
+  private tierOf?: (subject: Subject) => string | undefined;
+
+  constructor(options: RateLimitPolicyOptions) {
+    const clock = options.clock ?? systemClock;
+
+    for (const [tier, rules] of Object.entries(options.tiers)) {
+      if (rules.length === 0) {
+        throw new Error(`Tier "${tier}" has no limits`);
+      }
+
+      const names = new Set<string>();
+      for (const rule of rules) {
+        if (names.has(rule.name)) {
+          throw new Error(`Tier "${tier}" has two limits named "${rule.name}"`);
+        }
+        names.add(rule.name);
+      }
+
+      // One RateLimiter per limit, so buckets of different limits never share a key
+      this.tiers.set(tier, rules.map(rule => ({ rule, limiter: new RateLimiter(rule, clock) })));
+    }
+
+    if (!this.tiers.has(options.defaultTier)) {
+      throw new Error(`Default tier "${options.defaultTier}" is not defined`);
+    }
+    this.defaultTier = options.defaultTier;
+    this.tierOf = options.tierOf;
+  }
+
+  /**
+   * Check a request against every limit of the subject's tier. Tokens are
+   * taken from all of them if every one allows it, otherwise from none.
+   */
+  async limit(subject: Subject, cost: number = 1): Promise<PolicyResult> {
+    const tier = this.resolveTier(subject);
+    const checks = this.checksFor(tier, subject);
+
+    // Peek and take without awaiting in between, so no other request can
+    // slip in and spend the tokens this one was promised
+    const peeked = checks.map(({ limiter, key }) => limiter.peek(key, cost));
+
+    if (peeked.every(result => result.allowed)) {
+      const taken = checks.map(({ limiter, key }) => limiter.limit(key, cost));
+      return this.combine(tier, checks, await Promise.all(taken));
+    }
+
+    // Limits that would have allowed it report their actual, uncharged state
+    return this.combine(tier, checks, peeked.map((result, i) =>
+      result.allowed ? checks[i].limiter.getStatus(checks[i].key) : result
+    ));
+  }
+
+  /**
+   * Current state of every limit for a subject, without consuming
+   */
+  getStatus(subject: Subject): PolicyResult {
+    const tier = this.resolveTier(subject);
+    const checks = this.checksFor(tier, subject);
+    return this.combine(tier, checks, checks.map(({ limiter, key }) => limiter.getStatus(key)));
+  }
+
+  /**
+   * Forget the subject's buckets in its tier. Note this includes shared
+   * scopes: resetting a user also resets their org's buckets.
+   */
+  reset(subject: Subject): void {
+    for (const { limiter, key } of this.checksFor(this.resolveTier(subject), subject)) {
+      limiter.reset(key);
+    }
+  }
+
+  destroy(): void {
+    for (const limits of this.tiers.values()) {
+      for (const { limiter } of limits) {
+        limiter.destroy();
+      }
+    }
+  }
+
+  private resolveTier(subject: Subject): string {
+    const tier = this.tierOf?.(subject) ?? this.defaultTier;
+    if (!this.tiers.has(tier)) {
+      throw new Error(`Unknown rate limit tier "${tier}"`);
+    }
+    return tier;
+  }
+
+  private checksFor(tier: string, subject: Subject): Array<TierLimit & { key: string }> {
+    return this.tiers.get(tier)!.map(({ rule, limiter }) => {
+      const id = subject[rule.scope];
+      if (id === undefined) {
+        throw new Error(`Limit "${rule.name}" is scoped by "${rule.scope}", which the subject does not have`);
+      }
+      return { rule, limiter, key: `${rule.scope}:${id}` };
+    });
+  }
+
+  /**
+   * Merge per-limit results. Denied: wait for the slowest denying limit,
+   * since retrying any sooner would fail again. Allowed: report the limit
+   * closest to running out.
+   */
+  private combine(tier: string, checks: TierLimit[], results: RateLimitResult[]): PolicyResult {
+    const limits: Record<string, RateLimitResult> = {};
+    checks.forEach(({ rule }, i) => (limits[rule.name] = results[i]));
+
+    let deciding = 0;
+    const denied = results.some(result => !result.allowed);
+
+    results.forEach((result, i) => {
+      const best = results[deciding];
+      if (denied) {
+        if (!result.allowed && (best.allowed || result.resetAt > best.resetAt)) deciding = i;
+      } else if (result.remaining < best.remaining) {
+        deciding = i;
+      }
+    });
+
+    return {
+      ...results[deciding],
+      tier,
+      limitedBy: denied ? checks[deciding].rule.name : undefined,
+      limits
+    };
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Example: free and pro plans, with a daily quota shared per organization
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DAY = 24 * 60 * MINUTE;
+const plans = new Map<string, string>([['acme', 'pro']]);
+
+const apiPolicy = new RateLimitPolicy({
+  defaultTier: 'free',
+  tierOf: subject => plans.get(subject.org),
+  tiers: {
+    free: [
+      { name: 'burst', scope: 'user', maxTokens: 5, refillRate: 5, refillInterval: SECOND },
+      { name: 'per-minute', scope: 'user', maxTokens: 100, refillRate: 100, refillInterval: MINUTE },
+      { name: 'org-daily', scope: 'org', maxTokens: 1000, refillRate: 1000, refillInterval: DAY }
+    ],
+    pro: [
+      { name: 'burst', scope: 'user', maxTokens: 50, refillRate: 50, refillInterval: SECOND },
+      { name: 'per-minute', scope: 'user', maxTokens: 1000, refillRate: 1000, refillInterval: MINUTE },
+      { name: 'org-daily', scope: 'org', maxTokens: 100000, refillRate: 100000, refillInterval: DAY }
+    ]
+  }
+});
+
+const result = await apiPolicy.limit({ user: 'u1', org: 'acme' });
+if (!result.allowed) console.log(`Hit the ${result.limitedBy} limit`);
+*/
+
+export {
+  RateLimitPolicy,
+  type LimitRule,
+  type Subject,
+  type RateLimitPolicyOptions,
+  type PolicyResult
+};
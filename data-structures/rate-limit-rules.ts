@@ -0,0 +1,431 @@
+/**
+ * Declarative Rate Limit Rules
+ *
+ * Limits defined as data instead of code: a rules file maps routes, HTTP
+ * methods and a key (client IP, user id or an API key header) to a limit
+ * and an algorithm. Pass the loaded rules to createRateLimitMiddleware().
+ *
+ *   {
+ *     "rules": [
+ *       { "name": "login", "route": "/auth/login", "methods": ["POST"], "key": "ip",
+ *         "limit": { "maxTokens": 5, "refillRate": 5, "refillInterval": 60000 } },
+ *       { "name": "api", "route": "/api/**", "key": "header:x-api-key",
+ *         "algorithm": "gcra",
+ *         "limit": { "maxTokens": 100, "refillRate": 100, "refillInterval": 60000 } }
+ *     ]
+ *   }
+ *
+ * Key Concepts:
+ * - First matching rule wins, like a routing table. A rule whose key the
+ *   request doesn't have (e.g. "user" for an anonymous request) is skipped,
+ *   so a per-user rule can fall through to a per-IP one
+ * - Validation reports every problem in the file at once, with its path
+ * - Hot reload: the file is polled for changes; a broken edit is logged and
+ *   the previous rules stay in force. Rules whose limit didn't change keep
+ *   their counters across a reload
+ * - JSON by default; pass any parser (e.g. a YAML library's parse) for
+ *   other formats
+ */
+
+import { readFile, stat } from 'fs/promises';
+import { systemClock, type Clock, type ClockTimer } from './clock';
+import {
+  RateLimiter,
+  SlidingWindowRateLimiter,
+  SlidingWindowCounterRateLimiter,
+  FixedWindowRateLimiter,
+  LeakyBucketRateLimiter,
+  GCRARateLimiter,
+  type Limiter,
+  type RateLimitConfig,
+  type RateLimitRequest,
+  type RequestLimiter
+} from './rate-limiter';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type RateLimitAlgorithm =
+  | 'token-bucket'
+  | 'sliding-window'
+  | 'sliding-window-counter'
+  | 'fixed-window'
+  | 'leaky-bucket'
+  | 'gcra';
+
+const ALGORITHMS: RateLimitAlgorithm[] = [
+  'token-bucket',
+  'sliding-window',
+  'sliding-window-counter',
+  'fixed-window',
+  'leaky-bucket',
+  'gcra'
+];
+
+interface RuleDefinition {
+  name: string;
+  route: string;                   // '/login', '/users/*' (one segment), '/api/**' (anything below)
+  methods?: string[];              // Default: every method
+  key: string;                     // 'ip' | 'user' | 'header:<name>'
+  algorithm?: RateLimitAlgorithm;  // Default: 'token-bucket'
+  limit: RateLimitConfig;
+}
+
+interface RateLimitRulesOptions {
+  /** Turns file contents into data (default JSON.parse) */
+  parse?: (text: string) => unknown;
+  clock?: Clock;
+}
+
+interface CompiledRule {
+  definition: RuleDefinition;
+  route: RegExp;
+  methods: Set<string> | null;
+  keyOf: (req: RateLimitRequest) => string | undefined;
+  limiter: Limiter;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Check parsed rules data, reporting every problem at once
+ */
+function validateRules(data: unknown, source: string): RuleDefinition[] {
+  const rules = (data as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error(`Invalid rate limit rules in ${source}: expected an object with a "rules" array`);
+  }
+
+  const errors: string[] = [];
+  const names = new Set<string>();
+
+  rules.forEach((rule, i) => {
+    const at = `rules[${i}]`;
+    if (typeof rule !== 'object' || rule === null) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    if (typeof rule.name !== 'string' || rule.name === '') {
+      errors.push(`${at}.name must be a non-empty string`);
+    } else if (names.has(rule.name)) {
+      errors.push(`${at}.name "${rule.name}" is used by an earlier rule`);
+    } else {
+      names.add(rule.name);
+    }
+
+    if (typeof rule.route !== 'string' || !rule.route.startsWith('/')) {
+      errors.push(`${at}.route must be a path starting with "/"`);
+    }
+
+    if (rule.methods !== undefined &&
+        (!Array.isArray(rule.methods) || !rule.methods.every((m: unknown) => typeof m === 'string'))) {
+      errors.push(`${at}.methods must be an array of strings`);
+    }
+
+    if (typeof rule.key !== 'string' ||
+        !(rule.key === 'ip' || rule.key === 'user' || /^header:.+/.test(rule.key))) {
+      errors.push(`${at}.key must be "ip", "user" or "header:<name>"`);
+    }
+
+    if (rule.algorithm !== undefined && !ALGORITHMS.includes(rule.algorithm)) {
+      errors.push(`${at}.algorithm must be one of ${ALGORITHMS.join(', ')}`);
+    }
+
+    if (typeof rule.limit !== 'object' || rule.limit === null) {
+      errors.push(`${at}.limit must be an object with maxTokens, refillRate and refillInterval`);
+    } else {
+      for (const field of ['maxTokens', 'refillRate', 'refillInterval']) {
+        if (!isPositiveNumber(rule.limit[field])) {
+          errors.push(`${at}.limit.${field} must be a number greater than 0`);
+        }
+      }
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid rate limit rules in ${source}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return rules as RuleDefinition[];
+}
+
+// ============================================================================
+// COMPILING RULES
+// ============================================================================
+
+/**
+ * Build the limiter for a rule. Window-based algorithms allow maxTokens
+ * per full-refill period (maxTokens / refillRate intervals), so every
+ * algorithm grants the same long-run rate as the token bucket.
+ */
+function createLimiter(algorithm: RateLimitAlgorithm, config: RateLimitConfig, clock: Clock): Limiter {
+  const window = (config.maxTokens / config.refillRate) * config.refillInterval;
+
+  switch (algorithm) {
+    case 'token-bucket':
+      return new RateLimiter(config, clock);
+    case 'sliding-window':
+      return new SlidingWindowRateLimiter(window, config.maxTokens, clock);
+    case 'sliding-window-counter':
+      return new SlidingWindowCounterRateLimiter(window, config.maxTokens, clock);
+    case 'fixed-window':
+      return new FixedWindowRateLimiter(window, config.maxTokens, clock);
+    case 'leaky-bucket':
+      return new LeakyBucketRateLimiter(config.maxTokens, config.refillInterval / config.refillRate, clock);
+    case 'gcra':
+      return new GCRARateLimiter(config.maxTokens, window, clock);
+    default:
+      throw new Error(`Unknown rate limit algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * '*' matches within one path segment, '**' matches across segments
+ */
+function compileRoute(route: string): RegExp {
+  const pattern = route
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`);
+}
+
+function compileKey(key: string): (req: RateLimitRequest) => string | undefined {
+  if (key === 'ip') return req => req.ip;
+  if (key === 'user') return req => req.user?.id;
+
+  const header = key.slice('header:'.length).toLowerCase();
+  return req => {
+    const value = req.headers?.[header];
+    return Array.isArray(value) ? value[0] : value;
+  };
+}
+
+/** Rules with the same name and limit keep their limiter (and counters) */
+function signature(rule: RuleDefinition): string {
+  const { maxTokens, refillRate, refillInterval } = rule.limit;
+  return JSON.stringify([rule.algorithm ?? 'token-bucket', maxTokens, refillRate, refillInterval]);
+}
+
+// ============================================================================
+// RULE SET
+// ============================================================================
+
+class RateLimitRules implements RequestLimiter {
+  private compiled: CompiledRule[] = [];
+  private parse: (text: string) => unknown;
+  private clock: Clock;
+  private path: string | null = null;
+  private lastModified: string | null = null;
+  private watchTimer: ClockTimer | null = null;
+  private reloading = false;
+  private retired: Map<Limiter, ClockTimer> = new Map(); // Replaced limiters still draining
+
+  /**
+   * @param data Parsed rules, e.g. { rules: [...] }. Throws if invalid.
+   */
+  constructor(data: unknown, options: RateLimitRulesOptions = {}, source: string = 'rules') {
+    this.parse = options.parse ?? JSON.parse;
+    this.clock = options.clock ?? systemClock;
+    this.apply(validateRules(data, source));
+  }
+
+  /**
+   * Load and validate a rules file. Throws on a missing or invalid file,
+   * so a bad config stops the server at startup.
+   */
+  static async fromFile(path: string, options: RateLimitRulesOptions = {}): Promise<RateLimitRules> {
+    const parse = options.parse ?? JSON.parse;
+    const { data, modified } = await readRules(path, parse);
+
+    const rules = new RateLimitRules(data, options, path);
+    rules.path = path;
+    rules.lastModified = modified;
+    return rules;
+  }
+
+  /** Rule definitions currently in force, in match order */
+  get rules(): RuleDefinition[] {
+    return this.compiled.map(rule => rule.definition);
+  }
+
+  /**
+   * First rule matching the request's method and path that can key it
+   */
+  match(req: RateLimitRequest): { limiter: Limiter; key: string; rule: string } | undefined {
+    const method = (req.method ?? 'GET').toUpperCase();
+    const path = (req.path ?? '/').split('?')[0];
+
+    for (const rule of this.compiled) {
+      if (rule.methods && !rule.methods.has(method)) continue;
+      if (!rule.route.test(path)) continue;
+
+      const key = rule.keyOf(req);
+      if (key !== undefined && key !== '') {
+        return { limiter: rule.limiter, key, rule: rule.definition.name };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace the rules. Throws (keeping the current rules) if invalid.
+   */
+  update(data: unknown, source: string = 'rules'): void {
+    this.apply(validateRules(data, source));
+  }
+
+  /**
+   * Re-read the rules file. Throws (keeping the current rules) if it is
+   * missing or invalid.
+   */
+  async reload(): Promise<void> {
+    if (!this.path) {
+      throw new Error("Rules were not loaded from a file");
+    }
+    const { data, modified } = await readRules(this.path, this.parse);
+    this.update(data, this.path);
+    this.lastModified = modified;
+  }
+
+  /**
+   * Poll the rules file and reload it when it changes
+   */
+  watch(interval: number = 1000): void {
+    if (!this.path) {
+      throw new Error("Rules were not loaded from a file");
+    }
+    this.unwatch();
+
+    this.watchTimer = this.clock.setInterval(() => {
+      this.checkForChanges().catch(error => {
+        console.error(`Rate limit rules in ${this.path} not reloaded:`, (error as Error).message);
+      });
+    }, interval);
+    this.watchTimer.unref();
+  }
+
+  unwatch(): void {
+    if (this.watchTimer) {
+      this.clock.clearTimer(this.watchTimer);
+      this.watchTimer = null;
+    }
+  }
+
+  destroy(): void {
+    this.unwatch();
+    for (const rule of this.compiled) {
+      rule.limiter.destroy();
+    }
+    this.compiled = [];
+    for (const [limiter, timer] of this.retired) {
+      this.clock.clearTimer(timer);
+      limiter.destroy();
+    }
+    this.retired.clear();
+  }
+
+  private async checkForChanges(): Promise<void> {
+    if (this.reloading) return;
+    this.reloading = true;
+
+    try {
+      const modified = await modifiedAt(this.path!).catch((error: Error) => `error: ${error.message}`);
+      if (modified === this.lastModified) return;
+
+      // Remembered even if the reload fails, so a broken file is reported once
+      this.lastModified = modified;
+      await this.reload();
+    } finally {
+      this.reloading = false;
+    }
+  }
+
+  private apply(definitions: RuleDefinition[]): void {
+    const previous = new Map(this.compiled.map(rule => [rule.definition.name, rule]));
+
+    this.compiled = definitions.map(definition => {
+      const existing = previous.get(definition.name);
+      let limiter: Limiter;
+
+      if (existing && signature(existing.definition) === signature(definition)) {
+        limiter = existing.limiter;
+        previous.delete(definition.name);
+      } else {
+        limiter = createLimiter(definition.algorithm ?? 'token-bucket', definition.limit, this.clock);
+      }
+
+      return {
+        definition,
+        route: compileRoute(definition.route),
+        methods: definition.methods ? new Set(definition.methods.map(m => m.toUpperCase())) : null,
+        keyOf: compileKey(definition.key),
+        limiter
+      };
+    });
+
+    // Limiters of removed or changed rules
+    for (const rule of previous.values()) {
+      this.retire(rule.limiter);
+    }
+  }
+
+  /**
+   * Destroy a replaced limiter once requests it already queued have run.
+   * No algorithm holds a request longer than its quota window.
+   */
+  private retire(limiter: Limiter): void {
+    const timer = this.clock.setTimeout(() => {
+      this.retired.delete(limiter);
+      limiter.destroy();
+    }, limiter.quota.windowMs);
+    timer.unref();
+    this.retired.set(limiter, timer);
+  }
+}
+
+/** Modification stamp that changes whenever the file is rewritten */
+async function modifiedAt(path: string): Promise<string> {
+  const stats = await stat(path);
+  return `${stats.mtimeMs}:${stats.size}`;
+}
+
+async function readRules(path: string, parse: (text: string) => unknown): Promise<{ data: unknown; modified: string }> {
+  const modified = await modifiedAt(path);
+  const text = await readFile(path, 'utf8');
+
+  try {
+    return { data: parse(text), modified };
+  } catch (error) {
+    throw new Error(`Could not parse rate limit rules in ${path}: ${(error as Error).message}`);
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+// Example: load rules at startup (fails fast on a bad file), then pick up
+// edits without a restart
+//
+//   const rules = await RateLimitRules.fromFile('./rate-limits.json');
+//   rules.watch();
+//   app.use(createRateLimitMiddleware(rules));
+//
+// For YAML, pass a parser: RateLimitRules.fromFile('./rate-limits.yaml', { parse: YAML.parse })
+
+export {
+  RateLimitRules,
+  validateRules,
+  createLimiter,
+  type RuleDefinition,
+  type RateLimitAlgorithm,
+  type RateLimitRulesOptions
+};
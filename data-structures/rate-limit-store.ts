@@ -0,0 +1,482 @@
+/**
+ * Rate Limit Stores
+ *
+ * Implementations of the RateLimitStore interface from rate-limiter.ts,
+ * the shared state behind DistributedRateLimiter.
+ *
+ * - InMemoryRateLimitStore: one process, for tests and examples
+ * - FileRateLimitStore: one host, survives restarts
+ * - RedisRateLimitStore: many hosts, over the Redis protocol (a real Redis
+ *   or MiniRedisServer from mini-redis.ts)
+ *
+ * Key Concepts:
+ * - Every operation is atomic on its own; compareAndSet() makes a whole
+ *   read-modify-write atomic (optimistic concurrency)
+ * - Keys expire like Redis keys (PX / PEXPIRE), driven by an injectable Clock
+ * - The in-memory store can pause an operation type, so tests can line up
+ *   two servers' requests in an exact order and reproduce a race
+ */
+
+import { readFile, rename, writeFile } from 'fs/promises';
+import { createConnection, type Socket } from 'net';
+import { systemClock, type Clock } from './clock';
+import { RespParser, encodeCommand, type RespValue } from './mini-redis';
+import type { RateLimitStore } from './rate-limiter';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type StoreOperation = 'get' | 'set' | 'increment' | 'expire' | 'compareAndSet';
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null; // null = no expiry
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+/**
+ * Single-process store for tests and examples. Several limiters sharing
+ * one instance behave like several servers sharing one Redis.
+ */
+class InMemoryRateLimitStore implements RateLimitStore {
+  protected data: Map<string, StoredValue> = new Map();
+  private paused: Map<StoreOperation, Array<() => void>> = new Map();
+
+  constructor(protected clock: Clock = systemClock) {}
+
+  async get(key: string): Promise<string | null> {
+    await this.gate('get');
+    return this.read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, expiryMs: number): Promise<void> {
+    await this.gate('set');
+    this.write(key, value, expiryMs);
+  }
+
+  /**
+   * Add 1 (a missing key counts as 0). Keeps the key's expiry, like INCR.
+   */
+  async increment(key: string): Promise<number> {
+    await this.gate('increment');
+    const current = this.read(key);
+    const next = (current ? Number(current.value) : 0) + 1;
+
+    if (Number.isNaN(next)) {
+      throw new Error(`Value at "${key}" is not a number`);
+    }
+
+    this.data.set(key, { value: String(next), expiresAt: current?.expiresAt ?? null });
+    return next;
+  }
+
+  async expire(key: string, expiryMs: number): Promise<void> {
+    await this.gate('expire');
+    const current = this.read(key);
+    if (!current) return;
+
+    if (expiryMs <= 0) {
+      this.data.delete(key);
+    } else {
+      current.expiresAt = this.clock.now() + expiryMs;
+    }
+  }
+
+  async compareAndSet(key: string, expected: string | null, value: string, expiryMs: number): Promise<boolean> {
+    await this.gate('compareAndSet');
+    const current = this.read(key)?.value ?? null;
+    if (current !== expected) return false;
+
+    this.write(key, value, expiryMs);
+    return true;
+  }
+
+  /**
+   * Hold every later call of `operation` until the returned function is
+   * called; held calls then run in the order they arrived. Used to force
+   * an interleaving, e.g. let two servers read before either writes.
+   */
+  pause(operation: StoreOperation): () => void {
+    if (!this.paused.has(operation)) {
+      this.paused.set(operation, []);
+    }
+
+    return () => {
+      const waiters = this.paused.get(operation) ?? [];
+      this.paused.delete(operation);
+      for (const release of waiters) release();
+    };
+  }
+
+  /** Calls currently held by pause() */
+  waiting(operation: StoreOperation): number {
+    return this.paused.get(operation)?.length ?? 0;
+  }
+
+  /** Live keys */
+  get size(): number {
+    let count = 0;
+    for (const key of this.data.keys()) {
+      if (this.read(key)) count++;
+    }
+    return count;
+  }
+
+  private gate(operation: StoreOperation): Promise<void> | void {
+    const waiters = this.paused.get(operation);
+    if (!waiters) return;
+    return new Promise(resolve => waiters.push(resolve));
+  }
+
+  /** Entry for a key, dropping it if expired */
+  protected read(key: string): StoredValue | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== null && this.clock.now() >= entry.expiresAt) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private write(key: string, value: string, expiryMs: number): void {
+    this.data.set(key, {
+      value,
+      expiresAt: expiryMs > 0 ? this.clock.now() + expiryMs : null
+    });
+  }
+}
+
+// ============================================================================
+// FILE-BACKED STORE
+// ============================================================================
+
+/**
+ * In-memory store that saves its contents to a JSON file after every change
+ * and loads them on startup, so limits survive a restart.
+ *
+ * Single process only: two processes sharing one file would overwrite
+ * each other's writes. Use Redis for more than one.
+ */
+class FileRateLimitStore extends InMemoryRateLimitStore {
+  private loaded: Promise<void>;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private path: string, clock: Clock = systemClock) {
+    super(clock);
+    this.loaded = this.load();
+    this.loaded.catch(() => undefined); // reported by the first operation instead
+  }
+
+  async get(key: string): Promise<string | null> {
+    await this.loaded;
+    return super.get(key);
+  }
+
+  async set(key: string, value: string, expiryMs: number): Promise<void> {
+    await this.loaded;
+    await super.set(key, value, expiryMs);
+    await this.save();
+  }
+
+  async increment(key: string): Promise<number> {
+    await this.loaded;
+    const next = await super.increment(key);
+    await this.save();
+    return next;
+  }
+
+  async expire(key: string, expiryMs: number): Promise<void> {
+    await this.loaded;
+    await super.expire(key, expiryMs);
+    await this.save();
+  }
+
+  async compareAndSet(key: string, expected: string | null, value: string, expiryMs: number): Promise<boolean> {
+    await this.loaded;
+    const swapped = await super.compareAndSet(key, expected, value, expiryMs);
+    if (swapped) {
+      await this.save();
+    }
+    return swapped;
+  }
+
+  private async load(): Promise<void> {
+    let text: string;
+    try {
+      text = await readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return; // first run
+      throw error;
+    }
+
+    let saved: Record<string, StoredValue>;
+    try {
+      saved = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Rate limit state in ${this.path} is not valid JSON: ${(error as Error).message}`);
+    }
+
+    const now = this.clock.now();
+    for (const [key, entry] of Object.entries(saved)) {
+      if (entry.expiresAt === null || entry.expiresAt > now) {
+        this.data.set(key, entry);
+      }
+    }
+  }
+
+  /** Queue a save of the current contents; saves never overlap */
+  private save(): Promise<void> {
+    const write = this.saving.then(() => this.writeFile());
+    this.saving = write.catch(() => undefined);
+    return write;
+  }
+
+  private async writeFile(): Promise<void> {
+    const live: Record<string, StoredValue> = {};
+    for (const key of [...this.data.keys()]) {
+      const entry = this.read(key);
+      if (entry) live[key] = entry;
+    }
+
+    // Write a temp file and rename it over the old one, so a crash
+    // mid-write never leaves a truncated file behind
+    const temp = `${this.path}.tmp`;
+    await writeFile(temp, JSON.stringify(live));
+    await rename(temp, this.path);
+  }
+}
+
+// ============================================================================
+// REDIS PROTOCOL STORE
+// ============================================================================
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+interface RedisRateLimitStoreOptions {
+  commandTimeout?: number; // Milliseconds to wait for a reply (default 5000)
+  clock?: Clock;           // Drives the command timeout (default: system clock)
+}
+
+/**
+ * Store that talks to Redis (or MiniRedisServer) over TCP. Connects on the
+ * first operation and reconnects after the connection drops.
+ *
+ * compareAndSet() is WATCH, GET, MULTI, SET, EXEC: Redis refuses the EXEC
+ * (null reply) if another client wrote the key after the WATCH. A SET that
+ * failed inside the transaction rejects the call rather than count as a swap.
+ *
+ * Operations on one store run one at a time, since a transaction only
+ * works if no other command lands between its MULTI and EXEC on the same
+ * connection. Create one store per server, not one per request.
+ *
+ * A command with no reply within commandTimeout fails and drops the
+ * connection, so a hung server can't stall every later operation.
+ */
+class RedisRateLimitStore implements RateLimitStore {
+  private connection: Promise<Socket> | null = null;
+  private parser = new RespParser();
+  private pending: PendingReply[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private commandTimeout: number;
+  private clock: Clock;
+
+  constructor(
+    private port: number = 6379,
+    private host: string = '127.0.0.1',
+    options: RedisRateLimitStoreOptions = {}
+  ) {
+    this.commandTimeout = options.commandTimeout ?? 5000;
+    if (this.commandTimeout <= 0) {
+      throw new Error("commandTimeout must be greater than 0");
+    }
+    this.clock = options.clock ?? systemClock;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.exclusive(async () => bulkString(await this.command('GET', key), 'GET'));
+  }
+
+  async set(key: string, value: string, expiryMs: number): Promise<void> {
+    await this.exclusive(() => this.command(...setCommand(key, value, expiryMs)));
+  }
+
+  async increment(key: string): Promise<number> {
+    return this.exclusive(async () => integer(await this.command('INCR', key), 'INCR'));
+  }
+
+  async expire(key: string, expiryMs: number): Promise<void> {
+    await this.exclusive(() =>
+      expiryMs <= 0 ? this.command('DEL', key) : this.command('PEXPIRE', key, String(Math.ceil(expiryMs)))
+    );
+  }
+
+  async compareAndSet(key: string, expected: string | null, value: string, expiryMs: number): Promise<boolean> {
+    return this.exclusive(async () => {
+      try {
+        await this.command('WATCH', key);
+        if (bulkString(await this.command('GET', key), 'GET') !== expected) {
+          await this.command('UNWATCH');
+          return false;
+        }
+
+        await this.command('MULTI');
+        await this.command(...setCommand(key, value, expiryMs));
+        return execReplies(await this.command('EXEC')) !== null;
+      } catch (error) {
+        // The connection may be left mid-WATCH or mid-MULTI; start over
+        // on a fresh one rather than leak that state into the next call
+        this.disconnect(error as Error);
+        throw error;
+      }
+    });
+  }
+
+  /** Finish queued operations and close the connection */
+  async close(): Promise<void> {
+    await this.queue;
+    const socket = await this.connection?.catch(() => null);
+    if (socket) {
+      await new Promise<void>(resolve => socket.end(() => resolve()));
+    }
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async command(...args: string[]): Promise<RespValue> {
+    const socket = await this.connect();
+    return new Promise((resolve, reject) => {
+      // A late reply would be matched to the next command, so give up on
+      // the whole connection
+      const timer = this.clock.setTimeout(() => {
+        this.disconnect(new Error(`Redis did not reply to ${args[0]} within ${this.commandTimeout}ms`));
+      }, this.commandTimeout);
+
+      this.pending.push({
+        resolve: value => {
+          this.clock.clearTimer(timer);
+          resolve(value);
+        },
+        reject: error => {
+          this.clock.clearTimer(timer);
+          reject(error);
+        }
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<Socket> {
+    if (!this.connection) {
+      const connection = new Promise<Socket>((resolve, reject) => {
+        const socket = createConnection(this.port, this.host);
+        socket.once('connect', () => resolve(socket));
+        socket.once('error', reject);
+
+        // Events from a connection we already dropped must not touch its successor
+        const current = () => this.connection === connection;
+        socket.on('data', chunk => current() && this.receive(chunk));
+        socket.on('error', error => current() && this.failPending(error));
+        socket.on('close', () => current() && this.reset(new Error('Connection to Redis closed')));
+      });
+      this.connection = connection;
+    }
+    return this.connection;
+  }
+
+  /** Forget the connection and fail whatever was waiting on it */
+  private reset(error: Error): void {
+    this.connection = null;
+    this.parser = new RespParser();
+    this.failPending(error);
+  }
+
+  /** Drop a connection whose state can't be trusted any more */
+  private disconnect(error: Error): void {
+    const connection = this.connection;
+    this.reset(error);
+    connection?.then(socket => socket.destroy(), () => undefined);
+  }
+
+  /** Replies arrive in the order the commands were sent */
+  private receive(chunk: Buffer): void {
+    let replies: RespValue[];
+    try {
+      replies = this.parser.feed(chunk);
+    } catch (error) {
+      // Unparseable bytes: later replies can't be matched to commands
+      this.disconnect(new Error(`Bad reply from Redis: ${(error as Error).message}`));
+      return;
+    }
+
+    for (const reply of replies) {
+      const waiter = this.pending.shift();
+      if (!waiter) continue;
+
+      if (reply instanceof Error) {
+        waiter.reject(reply);
+      } else {
+        waiter.resolve(reply);
+      }
+    }
+  }
+
+  private failPending(error: Error): void {
+    const waiters = this.pending;
+    this.pending = [];
+    for (const waiter of waiters) {
+      waiter.reject(error);
+    }
+  }
+}
+
+function bulkString(reply: RespValue, command: string): string | null {
+  if (reply !== null && typeof reply !== 'string') {
+    throw new Error(`Unexpected reply to ${command}: ${JSON.stringify(reply)}`);
+  }
+  return reply;
+}
+
+function integer(reply: RespValue, command: string): number {
+  if (typeof reply !== 'number') {
+    throw new Error(`Unexpected reply to ${command}: ${JSON.stringify(reply)}`);
+  }
+  return reply;
+}
+
+/**
+ * EXEC replies null if a watched key changed, else one reply per queued
+ * command. A queued command can fail on its own (e.g. WRONGTYPE): that is
+ * an error, not a successful transaction.
+ */
+function execReplies(reply: RespValue): RespValue[] | null {
+  if (reply === null) return null;
+  if (!Array.isArray(reply)) {
+    throw new Error(`Unexpected reply to EXEC: ${JSON.stringify(reply)}`);
+  }
+  const failed = reply.find(entry => entry instanceof Error);
+  if (failed) throw failed;
+  return reply;
+}
+
+function setCommand(key: string, value: string, expiryMs: number): string[] {
+  return expiryMs > 0 ? ['SET', key, value, 'PX', String(Math.ceil(expiryMs))] : ['SET', key, value];
+}
+
+export {
+  InMemoryRateLimitStore,
+  FileRateLimitStore,
+  RedisRateLimitStore,
+  type StoreOperation,
+  type RedisRateLimitStoreOptions
+};
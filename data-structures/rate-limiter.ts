@@ -7,22 +7,28 @@
  * - Concurrency handling
  * - Time-based logic
  * - System design thinking
+ *
+ * Every limiter takes an optional Clock (see clock.ts) so tests can move
+ * time forward with a FakeClock instead of sleeping.
  */
 
+import { systemClock, type Clock, type ClockTimer } from './clock';
+import type { CircuitBreaker } from './circuit-breaker';
+
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 interface RateLimitConfig {
   maxTokens: number;      // Maximum tokens in bucket
-  refillRate: number;     // Tokens added per second
-  refillInterval: number; // Milliseconds between refills
+  refillRate: number;     // Tokens added per refillInterval
+  refillInterval: number; // Milliseconds; tokens accrue continuously at refillRate / refillInterval
 }
 
 interface RateLimitResult {
   allowed: boolean;
   remaining: number;
-  resetAt: Date;
+  resetAt: Date;       // Allowed: when the bucket is full again. Denied: when the request would fit.
   retryAfter?: number; // Seconds to wait if denied
 }
 
@@ -31,57 +37,181 @@ interface TokenBucket {
   lastRefill: number; // Timestamp in milliseconds
 }
 
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * What a limiter allows, for response headers: `limit` requests per
+ * `windowMs` milliseconds
+ */
+interface RateLimitQuota {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * Common surface of every limiter in this file, so algorithms can be
+ * swapped behind the same middleware.
+ * - limit():     check and consume `cost` units (default 1); a denied
+ *                request consumes nothing
+ * - getStatus(): current state without consuming; resetAt is when the
+ *                key is back to its full allowance
+ * - reset():     forget a key
+ * - destroy():   stop background timers and drop all state
+ * - quota:       the limit and window, as advertised in response headers
+ */
+interface Limiter {
+  readonly quota: RateLimitQuota;
+  limit(key: string, cost?: number): Promise<RateLimitResult>;
+  getStatus(key: string): MaybePromise<RateLimitResult>;
+  reset(key: string): MaybePromise<void>;
+  destroy(): void;
+}
+
 // ============================================================================
 // RATE LIMITER IMPLEMENTATION
 // ============================================================================
 
-class RateLimiter {
+const TOKEN_EPSILON = 1e-9;
+
+/**
+ * Validate a request cost against the most a key can ever be allowed
+ */
+function checkCost(cost: number, max: number): void {
+  if (!(cost > 0)) {
+    throw new Error("Request cost must be greater than 0");
+  }
+  if (cost > max) {
+    throw new Error(`Request cost (${cost}) exceeds the limit (${max})`);
+  }
+}
+
+/**
+ * Token bucket math, shared by RateLimiter and DistributedRateLimiter.
+ * Refill is continuous: partial intervals add fractional tokens, so no
+ * elapsed time is ever lost.
+ */
+function refillBucket(bucket: TokenBucket, config: RateLimitConfig, now: number): void {
+  const timePassed = now - bucket.lastRefill;
+
+  if (timePassed > 0) {
+    const tokensToAdd = timePassed * (config.refillRate / config.refillInterval);
+    bucket.tokens = Math.min(
+      config.maxTokens,
+      bucket.tokens + tokensToAdd
+    );
+    bucket.lastRefill = now;
+  }
+}
+
+/**
+ * Milliseconds until a bucket holding `tokens` reaches `target`
+ */
+function msUntilTokens(tokens: number, target: number, config: RateLimitConfig): number {
+  const deficit = target - tokens;
+  return deficit <= TOKEN_EPSILON ? 0 : Math.ceil((deficit * config.refillInterval) / config.refillRate);
+}
+
+/**
+ * Take `cost` tokens from a refilled bucket if it has them. The bucket is
+ * only changed when the request is allowed.
+ */
+function takeTokens(bucket: TokenBucket, cost: number, config: RateLimitConfig, now: number): RateLimitResult {
+  // Tolerate floating point drift from fractional refills
+  if (bucket.tokens + TOKEN_EPSILON >= cost) {
+    bucket.tokens = Math.max(0, bucket.tokens - cost);
+
+    return {
+      allowed: true,
+      remaining: Math.floor(bucket.tokens + TOKEN_EPSILON),
+      resetAt: new Date(now + msUntilTokens(bucket.tokens, config.maxTokens, config))
+    };
+  }
+
+  const waitMs = msUntilTokens(bucket.tokens, cost, config);
+
+  return {
+    allowed: false,
+    remaining: Math.floor(bucket.tokens + TOKEN_EPSILON),
+    resetAt: new Date(now + waitMs),
+    retryAfter: Math.ceil(waitMs / 1000)
+  };
+}
+
+class RateLimiter implements Limiter {
   private buckets: Map<string, TokenBucket> = new Map();
   private config: RateLimitConfig;
-  private cleanupInterval: NodeJS.Timeout;
+  private clock: Clock;
+  private cleanupInterval: ClockTimer;
 
-  constructor(config: RateLimitConfig) {
+  constructor(config: RateLimitConfig, clock: Clock = systemClock) {
+    if (config.maxTokens <= 0 || config.refillRate <= 0 || config.refillInterval <= 0) {
+      throw new Error("maxTokens, refillRate and refillInterval must be greater than 0");
+    }
     this.config = config;
+    this.clock = clock;
 
-    // Cleanup old buckets every minute
-    this.cleanupInterval = setInterval(() => {
+    // Cleanup old buckets every minute, without keeping the process alive
+    this.cleanupInterval = clock.setInterval(() => {
       this.cleanup();
     }, 60000);
+    this.cleanupInterval.unref();
+  }
+
+  /** A bucketful per time to refill an empty bucket */
+  get quota(): RateLimitQuota {
+    const { maxTokens, refillRate, refillInterval } = this.config;
+    return { limit: maxTokens, windowMs: (maxTokens / refillRate) * refillInterval };
   }
 
   /**
-   * Check if a request is allowed and consume a token if so
-   * TODO(human): Implement the core token bucket algorithm here
+   * Check if a request is allowed and consume tokens if so.
+   * A denied request consumes nothing (all or nothing).
    */
   async limit(key: string, tokensRequested: number = 1): Promise<RateLimitResult> {
-    // TODO(human): Implement this method
-    // 1. Get or create bucket for this key
-    // 2. Refill tokens based on time elapsed since last refill
-    // 3. Check if enough tokens available
-    // 4. If yes: consume tokens and return allowed
-    // 5. If no: return denied with retry information
+    this.checkRequest(tokensRequested);
 
-    throw new Error("Not implemented");
+    const now = this.clock.now();
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      bucket = { tokens: this.config.maxTokens, lastRefill: now };
+      this.buckets.set(key, bucket);
+    }
+
+    this.refillTokens(bucket);
+    return takeTokens(bucket, tokensRequested, this.config, now);
   }
 
   /**
-   * Refill tokens based on elapsed time
+   * What limit() would return right now, without consuming anything.
+   * Lets a caller check several limiters before committing to any.
    */
-  private refillTokens(bucket: TokenBucket): void {
-    const now = Date.now();
-    const timePassed = now - bucket.lastRefill;
-    const intervalsElapsed = Math.floor(timePassed / this.config.refillInterval);
+  peek(key: string, tokensRequested: number = 1): RateLimitResult {
+    this.checkRequest(tokensRequested);
+
+    const now = this.clock.now();
+    const bucket = { ...(this.buckets.get(key) ?? { tokens: this.config.maxTokens, lastRefill: now }) };
 
-    if (intervalsElapsed > 0) {
-      const tokensToAdd = intervalsElapsed * this.config.refillRate;
-      bucket.tokens = Math.min(
-        this.config.maxTokens,
-        bucket.tokens + tokensToAdd
-      );
-      bucket.lastRefill = now;
+    refillBucket(bucket, this.config, now);
+    return takeTokens(bucket, tokensRequested, this.config, now);
+  }
+
+  private checkRequest(tokensRequested: number): void {
+    if (!(tokensRequested > 0)) {
+      throw new Error("tokensRequested must be greater than 0");
+    }
+    if (tokensRequested > this.config.maxTokens) {
+      throw new Error(`tokensRequested (${tokensRequested}) exceeds bucket size (${this.config.maxTokens})`);
     }
   }
 
+  /**
+   * Refill tokens based on elapsed time
+   */
+  private refillTokens(bucket: TokenBucket): void {
+    refillBucket(bucket, this.config, this.clock.now());
+  }
+
   /**
    * Get current status without consuming tokens
    */
@@ -92,7 +222,7 @@ class RateLimiter {
       return {
         allowed: true,
         remaining: this.config.maxTokens,
-        resetAt: new Date(Date.now() + this.config.refillInterval)
+        resetAt: new Date(this.clock.now() + this.config.refillInterval)
       };
     }
 
@@ -101,9 +231,9 @@ class RateLimiter {
     this.refillTokens(tempBucket);
 
     return {
-      allowed: tempBucket.tokens >= 1,
-      remaining: Math.floor(tempBucket.tokens),
-      resetAt: new Date(bucket.lastRefill + this.config.refillInterval)
+      allowed: tempBucket.tokens + TOKEN_EPSILON >= 1,
+      remaining: Math.floor(tempBucket.tokens + TOKEN_EPSILON),
+      resetAt: new Date(tempBucket.lastRefill + msUntilTokens(tempBucket.tokens, this.config.maxTokens, this.config))
     };
   }
 
@@ -115,13 +245,16 @@ class RateLimiter {
   }
 
   /**
-   * Remove buckets that haven't been used in over 5 minutes
+   * Remove buckets that have refilled completely: a full bucket behaves
+   * exactly like a missing one. (Dropping idle buckets by age instead
+   * would hand a fresh allowance to a key on a per-day limit.)
    */
   private cleanup(): void {
-    const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
+    const now = this.clock.now();
 
     for (const [key, bucket] of this.buckets.entries()) {
-      if (bucket.lastRefill < fiveMinutesAgo) {
+      const elapsed = now - bucket.lastRefill;
+      if (bucket.tokens + elapsed * (this.config.refillRate / this.config.refillInterval) >= this.config.maxTokens) {
         this.buckets.delete(key);
       }
     }
@@ -131,7 +264,7 @@ class RateLimiter {
    * Cleanup on shutdown
    */
   destroy(): void {
-    clearInterval(this.cleanupInterval);
+    this.clock.clearTimer(this.cleanupInterval);
     this.buckets.clear();
   }
 }
@@ -148,52 +281,288 @@ interface WindowEntry {
 /**
  * Sliding Window Log algorithm - more precise but uses more memory
  */
-class SlidingWindowRateLimiter {
+class SlidingWindowRateLimiter implements Limiter {
   private windows: Map<string, WindowEntry[]> = new Map();
   private readonly windowSize: number; // milliseconds
   private readonly maxRequests: number;
+  private readonly clock: Clock;
 
-  constructor(windowSize: number, maxRequests: number) {
+  constructor(windowSize: number, maxRequests: number, clock: Clock = systemClock) {
     this.windowSize = windowSize;
     this.maxRequests = maxRequests;
+    this.clock = clock;
   }
 
-  async limit(key: string): Promise<RateLimitResult> {
-    const now = Date.now();
-    const windowStart = now - this.windowSize;
+  get quota(): RateLimitQuota {
+    return { limit: this.maxRequests, windowMs: this.windowSize };
+  }
 
-    // Get or create window for this key
-    let entries = this.windows.get(key) || [];
+  async limit(key: string, cost: number = 1): Promise<RateLimitResult> {
+    checkCost(cost, this.maxRequests);
+    const now = this.clock.now();
 
-    // Remove old entries outside the window
-    entries = entries.filter(entry => entry.timestamp > windowStart);
+    // Get the window for this key, without entries that slid out
+    const entries = this.liveEntries(key, now);
 
     // Count total requests in window
     const totalRequests = entries.reduce((sum, entry) => sum + entry.count, 0);
 
-    if (totalRequests >= this.maxRequests) {
-      const oldestEntry = entries[0];
-      const resetAt = new Date(oldestEntry.timestamp + this.windowSize);
-      const retryAfter = Math.ceil((oldestEntry.timestamp + this.windowSize - now) / 1000);
+    if (totalRequests + cost > this.maxRequests) {
+      const freeAt = this.freeAt(entries, totalRequests + cost - this.maxRequests);
 
       return {
         allowed: false,
-        remaining: 0,
-        resetAt,
-        retryAfter
+        remaining: this.maxRequests - totalRequests,
+        resetAt: new Date(freeAt),
+        retryAfter: Math.ceil((freeAt - now) / 1000)
       };
     }
 
     // Add new entry
-    entries.push({ timestamp: now, count: 1 });
+    entries.push({ timestamp: now, count: cost });
     this.windows.set(key, entries);
 
     return {
       allowed: true,
-      remaining: this.maxRequests - totalRequests - 1,
+      remaining: this.maxRequests - totalRequests - cost,
       resetAt: new Date(now + this.windowSize)
     };
   }
+
+  getStatus(key: string): RateLimitResult {
+    const now = this.clock.now();
+    const entries = this.liveEntries(key, now);
+    const totalRequests = entries.reduce((sum, entry) => sum + entry.count, 0);
+    const newest = entries[entries.length - 1];
+
+    return {
+      allowed: totalRequests < this.maxRequests,
+      remaining: this.maxRequests - totalRequests,
+      resetAt: new Date(newest ? newest.timestamp + this.windowSize : now)
+    };
+  }
+
+  /**
+   * Reset rate limit for a specific key
+   */
+  reset(key: string): void {
+    this.windows.delete(key);
+  }
+
+  destroy(): void {
+    this.windows.clear();
+  }
+
+  private liveEntries(key: string, now: number): WindowEntry[] {
+    const windowStart = now - this.windowSize;
+    return (this.windows.get(key) || []).filter(entry => entry.timestamp > windowStart);
+  }
+
+  /**
+   * When enough of the oldest entries have left the window to free `needed` requests
+   */
+  private freeAt(entries: WindowEntry[], needed: number): number {
+    let freed = 0;
+    for (const entry of entries) {
+      freed += entry.count;
+      if (freed >= needed) {
+        return entry.timestamp + this.windowSize;
+      }
+    }
+    return this.clock.now();
+  }
+}
+
+// ============================================================================
+// ADVANCED: SLIDING WINDOW COUNTER RATE LIMITER
+// ============================================================================
+
+interface WindowCounter {
+  windowStart: number; // Start of the current fixed window
+  current: number;     // Requests in the current window
+  previous: number;    // Requests in the previous window
+}
+
+/**
+ * Sliding Window Counter - approximates the sliding log with two counters.
+ *
+ * Time is cut into fixed windows. The request count over the last
+ * `windowSize` ms is estimated by weighting the previous window by how much
+ * of it still overlaps the sliding window:
+ *
+ *   estimate = previous * (1 - elapsedInCurrent / windowSize) + current
+ *
+ * O(1) memory per key (vs. one entry per request for the log), at the cost
+ * of assuming requests in the previous window were evenly spread.
+ * Keys idle for two full windows are dropped by a periodic cleanup.
+ */
+class SlidingWindowCounterRateLimiter implements Limiter {
+  private counters: Map<string, WindowCounter> = new Map();
+  private readonly windowSize: number; // milliseconds
+  private readonly maxRequests: number;
+  private readonly clock: Clock;
+  private cleanupInterval: ClockTimer;
+
+  constructor(windowSize: number, maxRequests: number, clock: Clock = systemClock) {
+    if (windowSize <= 0 || maxRequests <= 0) {
+      throw new Error("windowSize and maxRequests must be greater than 0");
+    }
+    this.windowSize = windowSize;
+    this.maxRequests = maxRequests;
+    this.clock = clock;
+
+    // An idle key's counters are all zero after two windows: nothing to keep
+    this.cleanupInterval = clock.setInterval(() => {
+      this.cleanup();
+    }, windowSize);
+    this.cleanupInterval.unref();
+  }
+
+  get quota(): RateLimitQuota {
+    return { limit: this.maxRequests, windowMs: this.windowSize };
+  }
+
+  async limit(key: string, cost: number = 1): Promise<RateLimitResult> {
+    checkCost(cost, this.maxRequests);
+    const now = this.clock.now();
+    const counter = this.counterFor(key, now);
+    const estimate = this.estimate(counter, now);
+
+    if (estimate + cost > this.maxRequests + TOKEN_EPSILON) {
+      const waitMs = this.msUntilAllowed(counter, now, cost);
+
+      return {
+        allowed: false,
+        remaining: Math.max(0, Math.floor(this.maxRequests - estimate + TOKEN_EPSILON)),
+        resetAt: new Date(now + waitMs),
+        retryAfter: Math.ceil(waitMs / 1000)
+      };
+    }
+
+    counter.current += cost;
+
+    return {
+      allowed: true,
+      remaining: Math.max(0, Math.floor(this.maxRequests - estimate - cost + TOKEN_EPSILON)),
+      resetAt: new Date(counter.windowStart + this.windowSize)
+    };
+  }
+
+  getStatus(key: string): RateLimitResult {
+    const now = this.clock.now();
+    const stored = this.counters.get(key);
+    if (!stored) {
+      return { allowed: true, remaining: this.maxRequests, resetAt: new Date(now) };
+    }
+
+    const counter = { ...stored };
+    this.roll(counter, now);
+    const estimate = this.estimate(counter, now);
+
+    // Each window's count stops mattering one full window after it ends
+    const resetAt = counter.current > 0
+      ? counter.windowStart + 2 * this.windowSize
+      : counter.previous > 0 ? counter.windowStart + this.windowSize : now;
+
+    return {
+      allowed: estimate + 1 <= this.maxRequests + TOKEN_EPSILON,
+      remaining: Math.max(0, Math.floor(this.maxRequests - estimate + TOKEN_EPSILON)),
+      resetAt: new Date(resetAt)
+    };
+  }
+
+  /**
+   * Reset rate limit for a specific key
+   */
+  reset(key: string): void {
+    this.counters.delete(key);
+  }
+
+  /** Keys currently holding counters */
+  get trackedKeys(): number {
+    return this.counters.size;
+  }
+
+  /**
+   * Cleanup on shutdown
+   */
+  destroy(): void {
+    this.clock.clearTimer(this.cleanupInterval);
+    this.counters.clear();
+  }
+
+  /**
+   * Get the key's counters, rolled forward to the window containing `now`
+   */
+  private counterFor(key: string, now: number): WindowCounter {
+    let counter = this.counters.get(key);
+
+    if (!counter) {
+      counter = { windowStart: this.windowStartFor(now), current: 0, previous: 0 };
+      this.counters.set(key, counter);
+    } else {
+      this.roll(counter, now);
+    }
+
+    return counter;
+  }
+
+  /**
+   * Move counters forward to the window containing `now`. One window
+   * later the current count becomes the previous one; any later and both
+   * windows are empty.
+   */
+  private roll(counter: WindowCounter, now: number): void {
+    const windowStart = this.windowStartFor(now);
+    if (counter.windowStart === windowStart) return;
+
+    counter.previous = counter.windowStart === windowStart - this.windowSize ? counter.current : 0;
+    counter.current = 0;
+    counter.windowStart = windowStart;
+  }
+
+  private windowStartFor(now: number): number {
+    return Math.floor(now / this.windowSize) * this.windowSize;
+  }
+
+  private estimate(counter: WindowCounter, now: number): number {
+    const previousWeight = 1 - (now - counter.windowStart) / this.windowSize;
+    return counter.previous * previousWeight + counter.current;
+  }
+
+  /**
+   * Milliseconds until a request of `cost` fits, assuming no other traffic.
+   * The estimate only falls as the previous window's weight decays, so
+   * solve previous * (1 - t / windowSize) + current + cost <= maxRequests.
+   */
+  private msUntilAllowed(counter: WindowCounter, now: number, cost: number): number {
+    const windowEnd = counter.windowStart + this.windowSize;
+
+    if (counter.current + cost <= this.maxRequests) {
+      // Fits within this window once enough of `previous` has decayed
+      const allowedPrevious = this.maxRequests - counter.current - cost;
+      const t = this.windowSize * (1 - allowedPrevious / counter.previous);
+      return Math.max(1, Math.ceil(counter.windowStart + t - now));
+    }
+
+    // Wait for the next window, where `current` becomes the decaying part
+    const allowedPrevious = this.maxRequests - cost;
+    const t = this.windowSize * (1 - allowedPrevious / counter.current);
+    return Math.max(1, Math.ceil(windowEnd + Math.max(0, t) - now));
+  }
+
+  /**
+   * Remove keys with no requests in the current or previous window
+   */
+  private cleanup(): void {
+    const currentWindow = this.windowStartFor(this.clock.now());
+
+    for (const [key, counter] of this.counters.entries()) {
+      if (counter.windowStart < currentWindow - this.windowSize) {
+        this.counters.delete(key);
+      }
+    }
+  }
 }
 
 // ============================================================================
@@ -204,115 +573,752 @@ interface RateLimitStore {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, expiryMs: number): Promise<void>;
   increment(key: string): Promise<number>;
-  expire(key: string, expiryMs: number): Promise<void>;
+  expire(key: string, expiryMs: number): Promise<void>; // expiryMs <= 0 deletes the key
+
+  /**
+   * Atomically write `value` only if the key still holds `expected`
+   * (null = key absent). Returns false if another writer got there first.
+   * In Redis this is a small Lua script (or WATCH/MULTI/EXEC).
+   */
+  compareAndSet(key: string, expected: string | null, value: string, expiryMs: number): Promise<boolean>;
 }
 
 /**
- * Distributed rate limiter that can work across multiple servers
+ * What to do when the store can't be reached (or the circuit is open)
+ * - 'throw':    reject, leaving the choice to the caller (the middleware fails open)
+ * - 'open':     allow the request; the limit goes unenforced until the store is back
+ * - 'closed':   deny the request; safe for abuse-sensitive routes like login
+ * - 'fallback': enforce the same limit with a local in-memory RateLimiter;
+ *               counts are per server, so N servers allow up to N times the limit
  */
-class DistributedRateLimiter {
+type StoreFailureMode = 'throw' | 'open' | 'closed' | 'fallback';
+
+interface DistributedRateLimiterOptions {
+  /** Read-modify-write attempts before giving up under contention (default 5) */
+  maxAttempts?: number;
+  onStoreFailure?: StoreFailureMode; // Default 'throw'
+  /**
+   * Guards store calls (see circuit-breaker.ts): once the store keeps
+   * failing, checks stop waiting on it and go straight to onStoreFailure.
+   * Share one breaker between limiters that use the same store.
+   */
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Distributed rate limiter that can work across multiple servers.
+ *
+ * Each check is an optimistic transaction: read the bucket, compute the
+ * new state locally, then compareAndSet() it. If another server changed
+ * the bucket in between, the write is rejected and the check is retried
+ * against the fresh state, so two servers can never both spend the last
+ * token.
+ */
+class DistributedRateLimiter implements Limiter {
+  private maxAttempts: number;
+  private onStoreFailure: StoreFailureMode;
+  private circuitBreaker?: CircuitBreaker;
+  private fallback?: RateLimiter;
+
   constructor(
     private store: RateLimitStore,
-    private config: RateLimitConfig
-  ) {}
+    private config: RateLimitConfig,
+    private clock: Clock = systemClock,
+    options: DistributedRateLimiterOptions = {}
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+    if (this.maxAttempts < 1) {
+      throw new Error("maxAttempts must be at least 1");
+    }
+    this.onStoreFailure = options.onStoreFailure ?? 'throw';
+    this.circuitBreaker = options.circuitBreaker;
+  }
+
+  /** A bucketful per time to refill an empty bucket */
+  get quota(): RateLimitQuota {
+    const { maxTokens, refillRate, refillInterval } = this.config;
+    return { limit: maxTokens, windowMs: (maxTokens / refillRate) * refillInterval };
+  }
+
+  async limit(key: string, cost: number = 1): Promise<RateLimitResult> {
+    checkCost(cost, this.config.maxTokens);
+
+    let result: RateLimitResult | null;
+    try {
+      result = await this.callStore(() => this.limitInStore(key, cost));
+    } catch (error) {
+      return this.storeFailed(error, cost, fallback => fallback.limit(key, cost));
+    }
+    this.storeRecovered();
+
+    // Contention means the store works, so it is neither a store failure
+    // nor a reason to open the circuit
+    if (!result) {
+      throw new Error(`Rate limit state for "${key}" is contended: gave up after ${this.maxAttempts} attempts`);
+    }
+    return result;
+  }
+
+  async getStatus(key: string): Promise<RateLimitResult> {
+    const now = this.clock.now();
+    let data: string | null;
+    try {
+      data = await this.callStore(() => this.store.get(this.bucketKey(key)));
+    } catch (error) {
+      return this.storeFailed(error, 1, fallback => fallback.getStatus(key));
+    }
+    this.storeRecovered();
+
+    const bucket = this.parseBucket(data, now);
+    refillBucket(bucket, this.config, now);
+
+    return {
+      allowed: bucket.tokens + TOKEN_EPSILON >= 1,
+      remaining: Math.floor(bucket.tokens + TOKEN_EPSILON),
+      resetAt: new Date(now + msUntilTokens(bucket.tokens, this.config.maxTokens, this.config))
+    };
+  }
+
+  /**
+   * Reset by expiring the bucket; the next check starts full
+   */
+  async reset(key: string): Promise<void> {
+    this.fallback?.reset(key);
+    await this.callStore(() => this.store.expire(this.bucketKey(key), 0));
+  }
+
+  /**
+   * Only the fallback limiter needs stopping: state lives in the store,
+   * which the caller owns
+   */
+  destroy(): void {
+    this.fallback?.destroy();
+  }
+
+  /**
+   * One optimistic transaction; null if it kept losing the race
+   */
+  private async limitInStore(key: string, cost: number): Promise<RateLimitResult | null> {
+    const bucketKey = this.bucketKey(key);
+
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const now = this.clock.now();
+
+      // Get current bucket state
+      const data = await this.store.get(bucketKey);
+      const bucket = this.parseBucket(data, now);
+      refillBucket(bucket, this.config, now);
+
+      const result = takeTokens(bucket, cost, this.config, now);
+      if (!result.allowed) {
+        // Nothing consumed, nothing to write
+        return result;
+      }
+
+      if (await this.store.compareAndSet(bucketKey, data, JSON.stringify(bucket), this.expiryMs())) {
+        return result;
+      }
+      // Lost the race: another server updated the bucket, retry on fresh state
+    }
+
+    return null;
+  }
 
-  async limit(key: string): Promise<RateLimitResult> {
-    const bucketKey = `ratelimit:${key}`;
-    const now = Date.now();
+  private callStore<T>(operation: () => Promise<T>): Promise<T> {
+    return this.circuitBreaker ? this.circuitBreaker.execute(operation) : operation();
+  }
 
-    // Get current bucket state
-    const data = await this.store.get(bucketKey);
-    let bucket: TokenBucket;
+  /**
+   * Answer a check the store couldn't; `useFallback` runs it on the local
+   * limiter in 'fallback' mode
+   */
+  private async storeFailed(
+    error: unknown,
+    cost: number,
+    useFallback: (fallback: RateLimiter) => MaybePromise<RateLimitResult>
+  ): Promise<RateLimitResult> {
+    const now = this.clock.now();
 
+    switch (this.onStoreFailure) {
+      case 'open':
+        // The real count is unknown; report nothing left rather than a full bucket
+        return { allowed: true, remaining: 0, resetAt: new Date(now) };
+      case 'closed': {
+        // Ask the client to come back once the request would fit an empty bucket
+        const waitMs = msUntilTokens(0, cost, this.config);
+        return { allowed: false, remaining: 0, resetAt: new Date(now + waitMs), retryAfter: Math.ceil(waitMs / 1000) };
+      }
+      case 'fallback':
+        return useFallback(this.fallbackLimiter());
+      default:
+        throw error;
+    }
+  }
+
+  /**
+   * Created on first failure. Its counts only cover this server's share of
+   * the outage, so storeRecovered() drops them once the store is back.
+   */
+  private fallbackLimiter(): RateLimiter {
+    this.fallback ??= new RateLimiter(this.config, this.clock);
+    return this.fallback;
+  }
+
+  /** The store answered: the next outage starts with a fresh fallback */
+  private storeRecovered(): void {
+    if (this.fallback) {
+      this.fallback.destroy();
+      this.fallback = undefined;
+    }
+  }
+
+  private bucketKey(key: string): string {
+    return `ratelimit:${key}`;
+  }
+
+  private parseBucket(data: string | null, now: number): TokenBucket {
     if (data) {
-      bucket = JSON.parse(data);
-    } else {
-      bucket = {
-        tokens: this.config.maxTokens,
-        lastRefill: now
+      return JSON.parse(data);
+    }
+    return {
+      tokens: this.config.maxTokens,
+      lastRefill: now
+    };
+  }
+
+  /**
+   * Keep a bucket until it would have refilled completely anyway
+   */
+  private expiryMs(): number {
+    return Math.ceil(this.config.maxTokens / this.config.refillRate * this.config.refillInterval);
+  }
+}
+
+// ============================================================================
+// ADVANCED: FIXED WINDOW RATE LIMITER
+// ============================================================================
+
+interface FixedWindow {
+  windowStart: number;
+  count: number;
+}
+
+/**
+ * Fixed Window Counter - the simplest algorithm: one counter per key,
+ * reset at every window boundary (e.g. on the minute).
+ *
+ * Cheap and easy to run in Redis (INCR + EXPIRE), but bursty: a client can
+ * send maxRequests just before a boundary and maxRequests just after it,
+ * i.e. up to 2x the limit within one window's length.
+ */
+class FixedWindowRateLimiter implements Limiter {
+  private windows: Map<string, FixedWindow> = new Map();
+  private readonly windowSize: number; // milliseconds
+  private readonly maxRequests: number;
+  private readonly clock: Clock;
+  private cleanupInterval: ClockTimer;
+
+  constructor(windowSize: number, maxRequests: number, clock: Clock = systemClock) {
+    if (windowSize <= 0 || maxRequests <= 0) {
+      throw new Error("windowSize and maxRequests must be greater than 0");
+    }
+    this.windowSize = windowSize;
+    this.maxRequests = maxRequests;
+    this.clock = clock;
+
+    // Windows from earlier periods are dead weight
+    this.cleanupInterval = clock.setInterval(() => {
+      this.cleanup();
+    }, windowSize);
+    this.cleanupInterval.unref();
+  }
+
+  get quota(): RateLimitQuota {
+    return { limit: this.maxRequests, windowMs: this.windowSize };
+  }
+
+  async limit(key: string, cost: number = 1): Promise<RateLimitResult> {
+    checkCost(cost, this.maxRequests);
+    const now = this.clock.now();
+    const window = this.windowFor(key, now);
+    const resetAt = window.windowStart + this.windowSize;
+
+    if (window.count + cost > this.maxRequests) {
+      return {
+        allowed: false,
+        remaining: this.maxRequests - window.count,
+        resetAt: new Date(resetAt),
+        retryAfter: Math.ceil((resetAt - now) / 1000)
       };
     }
 
-    // Refill tokens
-    const timePassed = now - bucket.lastRefill;
-    const intervalsElapsed = Math.floor(timePassed / this.config.refillInterval);
+    window.count += cost;
+    this.windows.set(key, window);
 
-    if (intervalsElapsed > 0) {
-      const tokensToAdd = intervalsElapsed * this.config.refillRate;
-      bucket.tokens = Math.min(
-        this.config.maxTokens,
-        bucket.tokens + tokensToAdd
-      );
-      bucket.lastRefill = now;
+    return {
+      allowed: true,
+      remaining: this.maxRequests - window.count,
+      resetAt: new Date(resetAt)
+    };
+  }
+
+  getStatus(key: string): RateLimitResult {
+    const now = this.clock.now();
+    const window = this.windowFor(key, now);
+
+    return {
+      allowed: window.count < this.maxRequests,
+      remaining: this.maxRequests - window.count,
+      resetAt: new Date(window.count > 0 ? window.windowStart + this.windowSize : now)
+    };
+  }
+
+  reset(key: string): void {
+    this.windows.delete(key);
+  }
+
+  destroy(): void {
+    this.clock.clearTimer(this.cleanupInterval);
+    this.windows.clear();
+  }
+
+  /**
+   * The key's window for `now`; a fresh (unsaved) one if it has rolled over
+   */
+  private windowFor(key: string, now: number): FixedWindow {
+    const windowStart = Math.floor(now / this.windowSize) * this.windowSize;
+    const window = this.windows.get(key);
+    return window && window.windowStart === windowStart ? window : { windowStart, count: 0 };
+  }
+
+  private cleanup(): void {
+    const currentWindow = Math.floor(this.clock.now() / this.windowSize) * this.windowSize;
+
+    for (const [key, window] of this.windows.entries()) {
+      if (window.windowStart < currentWindow) {
+        this.windows.delete(key);
+      }
     }
+  }
+}
 
-    // Check and consume token
-    if (bucket.tokens >= 1) {
-      bucket.tokens -= 1;
-      await this.store.set(
-        bucketKey,
-        JSON.stringify(bucket),
-        this.config.refillInterval * 2
-      );
+// ============================================================================
+// ADVANCED: LEAKY BUCKET (as a queue)
+// ============================================================================
+
+/**
+ * Leaky Bucket as a queue - smooths traffic instead of just counting it.
+ *
+ * Each key has a queue of `capacity` requests that drains at one request
+ * per `leakInterval` ms. limit() resolves when the request's turn comes,
+ * so callers are spaced out evenly; it is denied immediately only if the
+ * queue is full. Good for protecting a downstream with a fixed throughput
+ * (e.g. a payment API that allows 10 calls/second).
+ *
+ * Only the time the queue will be empty is stored per key: the queue
+ * length is derived from it.
+ */
+class LeakyBucketRateLimiter implements Limiter {
+  private drainsAt: Map<string, number> = new Map(); // When each key's queue is empty
+  private waiting: Map<ClockTimer, (error: Error) => void> = new Map();
+  private readonly capacity: number;
+  private readonly leakInterval: number; // milliseconds per request
+  private readonly clock: Clock;
+  private cleanupInterval: ClockTimer;
+
+  constructor(capacity: number, leakInterval: number, clock: Clock = systemClock) {
+    if (capacity <= 0 || leakInterval <= 0) {
+      throw new Error("capacity and leakInterval must be greater than 0");
+    }
+    this.capacity = capacity;
+    this.leakInterval = leakInterval;
+    this.clock = clock;
+
+    this.cleanupInterval = clock.setInterval(() => {
+      this.cleanup();
+    }, capacity * leakInterval);
+    this.cleanupInterval.unref();
+  }
+
+  /** A full queue per time to drain it */
+  get quota(): RateLimitQuota {
+    return { limit: this.capacity, windowMs: this.capacity * this.leakInterval };
+  }
+
+  /**
+   * Queue a request. Resolves with allowed: true once it leaks out of the
+   * bucket (immediately if the queue is empty), or at once with
+   * allowed: false if the queue is full.
+   */
+  async limit(key: string, cost: number = 1): Promise<RateLimitResult> {
+    checkCost(cost, this.capacity);
+    const now = this.clock.now();
+    const startAt = Math.max(now, this.drainsAt.get(key) ?? now);
+    const queued = (startAt - now) / this.leakInterval;
+
+    if (queued + cost > this.capacity + TOKEN_EPSILON) {
+      // Wait until enough queued requests have leaked out
+      const waitMs = Math.ceil(startAt - (this.capacity - cost) * this.leakInterval - now);
 
       return {
-        allowed: true,
-        remaining: Math.floor(bucket.tokens),
-        resetAt: new Date(bucket.lastRefill + this.config.refillInterval)
+        allowed: false,
+        remaining: Math.max(0, Math.floor(this.capacity - queued + TOKEN_EPSILON)),
+        resetAt: new Date(now + waitMs),
+        retryAfter: Math.ceil(waitMs / 1000)
       };
     }
 
-    const retryAfter = Math.ceil(
-      (this.config.refillInterval - timePassed) / 1000
-    );
+    const drainsAt = startAt + cost * this.leakInterval;
+    this.drainsAt.set(key, drainsAt);
+
+    const result: RateLimitResult = {
+      allowed: true,
+      remaining: Math.max(0, Math.floor(this.capacity - (drainsAt - now) / this.leakInterval + TOKEN_EPSILON)),
+      resetAt: new Date(drainsAt)
+    };
+
+    if (startAt > now) {
+      await this.waitUntil(startAt - now);
+    }
+    return result;
+  }
+
+  getStatus(key: string): RateLimitResult {
+    const now = this.clock.now();
+    const drainsAt = Math.max(now, this.drainsAt.get(key) ?? now);
+    const queued = (drainsAt - now) / this.leakInterval;
+
+    return {
+      allowed: queued + 1 <= this.capacity + TOKEN_EPSILON,
+      remaining: Math.max(0, Math.floor(this.capacity - queued + TOKEN_EPSILON)),
+      resetAt: new Date(drainsAt)
+    };
+  }
+
+  /**
+   * Forget a key's queue. Requests already queued still run at their time.
+   */
+  reset(key: string): void {
+    this.drainsAt.delete(key);
+  }
+
+  /**
+   * Stop timers; queued requests are rejected
+   */
+  destroy(): void {
+    this.clock.clearTimer(this.cleanupInterval);
+    for (const [timer, reject] of this.waiting) {
+      this.clock.clearTimer(timer);
+      reject(new Error("Rate limiter destroyed"));
+    }
+    this.waiting.clear();
+    this.drainsAt.clear();
+  }
+
+  private waitUntil(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = this.clock.setTimeout(() => {
+        this.waiting.delete(timer);
+        resolve();
+      }, ms);
+      this.waiting.set(timer, reject);
+    });
+  }
+
+  /**
+   * Remove keys whose queue has fully drained
+   */
+  private cleanup(): void {
+    const now = this.clock.now();
+
+    for (const [key, drainsAt] of this.drainsAt.entries()) {
+      if (drainsAt <= now) {
+        this.drainsAt.delete(key);
+      }
+    }
+  }
+}
+
+// ============================================================================
+// ADVANCED: GCRA (Generic Cell Rate Algorithm)
+// ============================================================================
+
+/**
+ * GCRA - token bucket behaviour with a single timestamp per key.
+ *
+ * Requests are allowed at one per emission interval T = period / maxRequests
+ * on average, with bursts of up to maxRequests. Per key we store the
+ * theoretical arrival time (TAT): when the key would be idle again if
+ * every allowed request had been spaced exactly T apart.
+ *
+ *   newTAT = max(TAT, now) + cost * T
+ *   allowed if newTAT - now <= period
+ *
+ * One number per key, no refill loop, and easy to do atomically in a
+ * store (this is what redis-cell and many API gateways use).
+ */
+class GCRARateLimiter implements Limiter {
+  private tats: Map<string, number> = new Map();
+  private readonly maxRequests: number;
+  private readonly period: number;           // milliseconds
+  private readonly emissionInterval: number; // milliseconds per request
+  private readonly clock: Clock;
+  private cleanupInterval: ClockTimer;
+
+  constructor(maxRequests: number, period: number, clock: Clock = systemClock) {
+    if (maxRequests <= 0 || period <= 0) {
+      throw new Error("maxRequests and period must be greater than 0");
+    }
+    this.maxRequests = maxRequests;
+    this.period = period;
+    this.emissionInterval = period / maxRequests;
+    this.clock = clock;
+
+    this.cleanupInterval = clock.setInterval(() => {
+      this.cleanup();
+    }, period);
+    this.cleanupInterval.unref();
+  }
+
+  get quota(): RateLimitQuota {
+    return { limit: this.maxRequests, windowMs: this.period };
+  }
+
+  async limit(key: string, cost: number = 1): Promise<RateLimitResult> {
+    checkCost(cost, this.maxRequests);
+    const now = this.clock.now();
+    const tat = Math.max(this.tats.get(key) ?? now, now);
+    const newTat = tat + cost * this.emissionInterval;
+
+    if (newTat - now > this.period + TOKEN_EPSILON) {
+      const allowAt = newTat - this.period;
+
+      return {
+        allowed: false,
+        remaining: this.remaining(tat, now),
+        resetAt: new Date(Math.ceil(allowAt)),
+        retryAfter: Math.ceil((allowAt - now) / 1000)
+      };
+    }
+
+    this.tats.set(key, newTat);
+
+    return {
+      allowed: true,
+      remaining: this.remaining(newTat, now),
+      resetAt: new Date(Math.ceil(newTat))
+    };
+  }
+
+  getStatus(key: string): RateLimitResult {
+    const now = this.clock.now();
+    const tat = Math.max(this.tats.get(key) ?? now, now);
+    const remaining = this.remaining(tat, now);
 
     return {
-      allowed: false,
-      remaining: 0,
-      resetAt: new Date(bucket.lastRefill + this.config.refillInterval),
-      retryAfter
+      allowed: remaining >= 1,
+      remaining,
+      resetAt: new Date(Math.ceil(tat))
     };
   }
+
+  reset(key: string): void {
+    this.tats.delete(key);
+  }
+
+  destroy(): void {
+    this.clock.clearTimer(this.cleanupInterval);
+    this.tats.clear();
+  }
+
+  /** Requests that could still be made right now */
+  private remaining(tat: number, now: number): number {
+    return Math.max(0, Math.floor((this.period - (tat - now)) / this.emissionInterval + TOKEN_EPSILON));
+  }
+
+  /**
+   * A TAT in the past means the key has its full allowance back
+   */
+  private cleanup(): void {
+    const now = this.clock.now();
+
+    for (const [key, tat] of this.tats.entries()) {
+      if (tat <= now) {
+        this.tats.delete(key);
+      }
+    }
+  }
 }
 
 // ============================================================================
 // MIDDLEWARE INTEGRATION EXAMPLE
 // ============================================================================
 
-type Request = { ip: string; user?: { id: string } };
-type Response = { status: (code: number) => Response; json: (data: any) => void };
+type Request = {
+  ip: string;
+  method?: string;
+  path?: string;
+  headers?: Record<string, string | string[] | undefined>; // lowercase names, as in Node.js
+  user?: { id: string };
+};
+type Response = {
+  status: (code: number) => Response;
+  json: (data: any) => void;
+  setHeader: (name: string, value: string) => void;
+};
 type NextFunction = () => void;
 
 /**
- * Express-style middleware for rate limiting
+ * Which rate limit headers to send
+ * - 'legacy': X-RateLimit-Limit / -Remaining / -Reset (Unix time in seconds)
+ * - 'ietf':   RateLimit-Policy and RateLimit from the IETF draft
+ *             (draft-ietf-httpapi-ratelimit-headers)
+ * - 'both':   both sets, for clients that understand either
+ * - 'none':   no headers at all, not even Retry-After
  */
-function createRateLimitMiddleware(limiter: RateLimiter) {
-  return async (req: Request, res: Response, next: NextFunction) => {
-    const key = req.user?.id || req.ip;
+type RateLimitHeaderStyle = 'legacy' | 'ietf' | 'both' | 'none';
 
+interface RateLimitMiddlewareOptions {
+  headers?: RateLimitHeaderStyle; // Default 'both'
+  clock?: Clock;
+  /**
+   * When the limiter throws (e.g. its store is down): 'open' lets the
+   * request through, 'closed' answers 503. Default 'open'. For finer
+   * control, set onStoreFailure on a DistributedRateLimiter instead.
+   */
+  failMode?: 'open' | 'closed';
+  /**
+   * Called with every limiter error. Default: console.error for the first
+   * error in a row only, so an outage logs once rather than per request.
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Picks the limiter and key for each request, e.g. the declarative rules
+ * in rate-limit-rules.ts. undefined = the request is not rate limited.
+ * `rule` names the policy in the RateLimit headers.
+ */
+interface RequestLimiter {
+  match(req: Request): { limiter: Limiter; key: string; rule?: string } | undefined;
+}
+
+/**
+ * Response headers for a rate limit decision. A denied request also gets
+ * Retry-After (seconds), unless the style is 'none'.
+ *
+ *   X-RateLimit-Limit: 100
+ *   X-RateLimit-Remaining: 0
+ *   X-RateLimit-Reset: 1704067230
+ *   RateLimit-Policy: "default";q=100;w=60
+ *   RateLimit: "default";r=0;t=30
+ *   Retry-After: 30
+ */
+function rateLimitHeaders(
+  result: RateLimitResult,
+  quota: RateLimitQuota,
+  now: number,
+  style: RateLimitHeaderStyle = 'both',
+  name: string = 'default'
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (style === 'none') return headers;
+
+  if (style === 'legacy' || style === 'both') {
+    headers['X-RateLimit-Limit'] = String(quota.limit);
+    headers['X-RateLimit-Remaining'] = String(result.remaining);
+    headers['X-RateLimit-Reset'] = String(Math.ceil(result.resetAt.getTime() / 1000));
+  }
+
+  if (style === 'ietf' || style === 'both') {
+    const policy = JSON.stringify(name); // a quoted structured-field string
+    const resetIn = Math.max(0, Math.ceil((result.resetAt.getTime() - now) / 1000));
+    headers['RateLimit-Policy'] = `${policy};q=${quota.limit};w=${Math.ceil(quota.windowMs / 1000)}`;
+    headers['RateLimit'] = `${policy};r=${result.remaining};t=${resetIn}`;
+  }
+
+  if (!result.allowed && result.retryAfter !== undefined) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+interface RateLimitDecision {
+  allowed: boolean;
+  headers: Record<string, string>;
+  /** Status and JSON body of the error response (set only when denied) */
+  status?: 429 | 503;
+  body?: { error: string; retryAfter?: number; resetAt?: Date };
+}
+
+/**
+ * The framework-independent part of the middleware: decide on a request
+ * and work out the headers to send. createRateLimitMiddleware() below and
+ * the adapters for real servers (rate-limit-http.ts) are built on this.
+ */
+function createRateLimitCheck(source: Limiter | RequestLimiter, options: RateLimitMiddlewareOptions = {}) {
+  const style = options.headers ?? 'both';
+  const clock = options.clock ?? systemClock;
+  const failMode = options.failMode ?? 'open';
+  let failing = false;
+  const onError = options.onError ?? ((error: unknown) => {
+    if (!failing) console.error("Rate limiter error:", error);
+  });
+  const match = 'match' in source
+    ? (req: Request) => source.match(req)
+    : (req: Request) => ({ limiter: source, key: req.user?.id || req.ip, rule: undefined });
+
+  return async (req: Request): Promise<RateLimitDecision> => {
     try {
-      const result = await limiter.limit(key);
+      const matched = match(req);
+      if (!matched) {
+        return { allowed: true, headers: {} };
+      }
 
-      // Add rate limit headers (standard practice)
-      // X-RateLimit-Limit: Maximum requests allowed
-      // X-RateLimit-Remaining: Requests remaining
-      // X-RateLimit-Reset: When the limit resets
+      const result = await matched.limiter.limit(matched.key);
+      failing = false;
+      const headers = rateLimitHeaders(result, matched.limiter.quota, clock.now(), style, matched.rule);
 
       if (!result.allowed) {
-        res.status(429).json({
-          error: "Too many requests",
-          retryAfter: result.retryAfter,
-          resetAt: result.resetAt
-        });
-        return;
+        return {
+          allowed: false,
+          headers,
+          status: 429,
+          body: { error: "Too many requests", retryAfter: result.retryAfter, resetAt: result.resetAt }
+        };
       }
-
-      next();
+      return { allowed: true, headers };
     } catch (error) {
-      // On error, allow the request (fail open)
-      console.error("Rate limiter error:", error);
-      next();
+      onError(error);
+      failing = true;
+      if (failMode === 'closed') {
+        return { allowed: false, headers: {}, status: 503, body: { error: "Rate limiter unavailable" } };
+      }
+      return { allowed: true, headers: {} };
+    }
+  };
+}
+
+/**
+ * Express-style middleware for rate limiting. Works with any Limiter
+ * (keyed by user id, falling back to IP) or with a RequestLimiter that
+ * chooses per request.
+ */
+function createRateLimitMiddleware(source: Limiter | RequestLimiter, options: RateLimitMiddlewareOptions = {}) {
+  const check = createRateLimitCheck(source, options);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const decision = await check(req);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value);
+    }
+
+    if (!decision.allowed) {
+      res.status(decision.status ?? 429).json(decision.body);
+      return;
     }
+
+    next();
   };
 }
 
@@ -328,6 +1334,8 @@ const limiter = new RateLimiter({
 });
 
 // Example 2: Different limits for different users
+// (RateLimitPolicy in rate-limit-policy.ts maps users to tiers like these
+// and checks burst, per-minute and per-day limits together)
 const apiLimiter = new RateLimiter({
   maxTokens: 100,
   refillRate: 10,
@@ -346,11 +1354,35 @@ const slidingLimiter = new SlidingWindowRateLimiter(
   100     // 100 requests per minute
 );
 
+// Example 4: Same limit with constant memory per key (millions of keys)
+const counterLimiter = new SlidingWindowCounterRateLimiter(60000, 100);
+
+// Example 5: Pace calls to a downstream that handles 10 requests/second,
+// queueing up to 50; any Limiter plugs into the same middleware
+const paymentsLimiter = new LeakyBucketRateLimiter(50, 100);
+const gcraMiddleware = createRateLimitMiddleware(new GCRARateLimiter(100, 60000));
+
 export {
   RateLimiter,
   SlidingWindowRateLimiter,
+  SlidingWindowCounterRateLimiter,
+  FixedWindowRateLimiter,
+  LeakyBucketRateLimiter,
+  GCRARateLimiter,
   DistributedRateLimiter,
   createRateLimitMiddleware,
+  createRateLimitCheck,
+  rateLimitHeaders,
+  type Limiter,
+  type RateLimitQuota,
+  type RateLimitHeaderStyle,
+  type RateLimitMiddlewareOptions,
+  type RateLimitDecision,
+  type RequestLimiter,
+  type Request as RateLimitRequest,
+  type RateLimitStore,
+  type DistributedRateLimiterOptions,
+  type StoreFailureMode,
   type RateLimitConfig,
   type RateLimitResult
 };
@@ -0,0 +1,334 @@
+/**
+ * Sharded Cache
+ *
+ * Splits one logical cache into N independent LRUCache segments ("shards")
+ * and picks a shard by hashing the key. Each shard evicts its own least
+ * recently used entry, so eviction is an approximation of global LRU:
+ * good enough for hot/cold separation, much cheaper than one global list.
+ *
+ * Sharing across worker_threads uses a message-passing owner: one thread
+ * holds the ShardedCache and serves get/put requests sent by
+ * ShardedCacheClient instances over MessagePorts. Every request is handled
+ * to completion on the owner's event loop, which gives each operation the
+ * same guarantee a per-shard lock would - no interleaving inside a shard -
+ * without SharedArrayBuffer bookkeeping. Values must be structured-cloneable.
+ *
+ * Memory: one cache for the whole process instead of one per worker.
+ */
+
+import { MessageChannel, type MessagePort } from 'worker_threads';
+import { LRUCache, type CacheStats, type LRUCacheOptions } from './lru-cache';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type ShardKey = string | number;
+
+interface ShardedCacheOptions<K, V> {
+  /** Number of segments (default 16) */
+  shards?: number;
+  /** Custom hash; defaults to FNV-1a over String(key). Negative results are fine. */
+  hash?: (key: K) => number;
+  /** Passed to every shard */
+  cacheOptions?: Pick<LRUCacheOptions<K, V>, 'policy'>;
+}
+
+interface ShardStats extends CacheStats {
+  shard: number;
+  size: number;
+}
+
+type ShardedCacheRequest<K, V> =
+  | { id: number; op: 'get'; key: K }
+  | { id: number; op: 'put'; key: K; value: V }
+  | { id: number; op: 'delete'; key: K }
+  | { id: number; op: 'has'; key: K }
+  | { id: number; op: 'size' }
+  | { id: number; op: 'stats' };
+
+interface ShardedCacheResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * 32-bit FNV-1a: fast, well distributed for short string keys
+ */
+function fnv1a(key: ShardKey): number {
+  const str = String(key);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ============================================================================
+// SHARDED CACHE (owner side)
+// ============================================================================
+
+class ShardedCache<K extends ShardKey, V> {
+  private shards: LRUCache<K, V>[];
+  private hash: (key: K) => number;
+
+  /**
+   * `capacity` is the total; each shard gets an equal share (rounded up)
+   */
+  constructor(capacity: number, options: ShardedCacheOptions<K, V> = {}) {
+    const shardCount = options.shards ?? 16;
+    if (!Number.isInteger(shardCount) || shardCount <= 0) {
+      throw new Error("Shard count must be a positive integer");
+    }
+    if (capacity < shardCount) {
+      throw new Error("Capacity must be at least the number of shards");
+    }
+
+    const perShard = Math.ceil(capacity / shardCount);
+    this.shards = Array.from({ length: shardCount }, () => new LRUCache<K, V>(perShard, options.cacheOptions));
+    this.hash = options.hash ?? fnv1a;
+  }
+
+  get(key: K): V | undefined {
+    return this.shardFor(key).get(key);
+  }
+
+  put(key: K, value: V): void {
+    this.shardFor(key).put(key, value);
+  }
+
+  has(key: K): boolean {
+    return this.shardFor(key).has(key);
+  }
+
+  delete(key: K): boolean {
+    return this.shardFor(key).delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await Promise.all(this.shards.map(shard => shard.clear()));
+  }
+
+  get size(): number {
+    return this.shards.reduce((sum, shard) => sum + shard.size, 0);
+  }
+
+  get shardCount(): number {
+    return this.shards.length;
+  }
+
+  /** Index of the shard that owns a key */
+  shardIndex(key: K): number {
+    // As unsigned 32-bit, so a signed hash (e.g. Java's hashCode) can't give a negative index
+    return (this.hash(key) >>> 0) % this.shards.length;
+  }
+
+  /** Counters for each shard - useful for spotting hot shards */
+  shardStats(): ShardStats[] {
+    return this.shards.map((shard, index) => ({
+      shard: index,
+      size: shard.size,
+      ...shard.stats()
+    }));
+  }
+
+  /** Counters summed over all shards */
+  stats(): CacheStats {
+    const total: CacheStats = {
+      hits: 0,
+      misses: 0,
+      insertions: 0,
+      updates: 0,
+      evictions: 0,
+      expirations: 0,
+      hitRatio: 0
+    };
+
+    for (const shard of this.shards) {
+      const stats = shard.stats();
+      total.hits += stats.hits;
+      total.misses += stats.misses;
+      total.insertions += stats.insertions;
+      total.updates += stats.updates;
+      total.evictions += stats.evictions;
+      total.expirations += stats.expirations;
+    }
+
+    const lookups = total.hits + total.misses;
+    total.hitRatio = lookups === 0 ? 0 : total.hits / lookups;
+    return total;
+  }
+
+  private shardFor(key: K): LRUCache<K, V> {
+    return this.shards[this.shardIndex(key)];
+  }
+}
+
+// ============================================================================
+// CROSS-WORKER ACCESS
+// ============================================================================
+
+/**
+ * Serves a ShardedCache to other threads. Call connect() once per worker
+ * and transfer the returned port in the Worker's transferList.
+ */
+class ShardedCacheOwner<K extends ShardKey, V> {
+  private ports: Set<MessagePort> = new Set();
+
+  constructor(readonly cache: ShardedCache<K, V>) {}
+
+  connect(): MessagePort {
+    const { port1, port2 } = new MessageChannel();
+
+    port1.on('message', (request: ShardedCacheRequest<K, V>) => {
+      port1.postMessage(this.handle(request));
+    });
+    this.ports.add(port1);
+
+    return port2;
+  }
+
+  /** Stop serving all connected clients */
+  close(): void {
+    for (const port of this.ports) {
+      port.close();
+    }
+    this.ports.clear();
+  }
+
+  private handle(request: ShardedCacheRequest<K, V>): ShardedCacheResponse {
+    try {
+      switch (request.op) {
+        case 'get':
+          return { id: request.id, result: this.cache.get(request.key) };
+        case 'put':
+          this.cache.put(request.key, request.value);
+          return { id: request.id };
+        case 'delete':
+          return { id: request.id, result: this.cache.delete(request.key) };
+        case 'has':
+          return { id: request.id, result: this.cache.has(request.key) };
+        case 'size':
+          return { id: request.id, result: this.cache.size };
+        case 'stats':
+          return { id: request.id, result: this.cache.shardStats() };
+        default:
+          throw new Error(`Unknown operation: ${(request as { op: string }).op}`);
+      }
+    } catch (error) {
+      return { id: request.id, error: (error as Error).message };
+    }
+  }
+}
+
+// Distributive Omit so each request variant keeps its own fields
+type RequestBody<K, V> = ShardedCacheRequest<K, V> extends infer R
+  ? R extends { id: number } ? Omit<R, 'id'> : never
+  : never;
+
+/**
+ * Worker-side handle. Same operations as ShardedCache, but async since
+ * every call is a round trip to the owner thread.
+ */
+class ShardedCacheClient<K extends ShardKey, V> {
+  private nextId = 0;
+  private closed = false;
+  private pending: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }> = new Map();
+
+  constructor(private port: MessagePort) {
+    port.on('message', (response: ShardedCacheResponse) => {
+      const waiter = this.pending.get(response.id);
+      if (!waiter) return;
+
+      this.pending.delete(response.id);
+      if (response.error !== undefined) {
+        waiter.reject(new Error(response.error));
+      } else {
+        waiter.resolve(response.result);
+      }
+    });
+
+    // The owner closed the channel: no replies will come
+    port.on('close', () => this.rejectAll("Cache owner closed the connection"));
+  }
+
+  get(key: K): Promise<V | undefined> {
+    return this.request({ op: 'get', key });
+  }
+
+  put(key: K, value: V): Promise<void> {
+    return this.request({ op: 'put', key, value });
+  }
+
+  has(key: K): Promise<boolean> {
+    return this.request({ op: 'has', key });
+  }
+
+  delete(key: K): Promise<boolean> {
+    return this.request({ op: 'delete', key });
+  }
+
+  size(): Promise<number> {
+    return this.request({ op: 'size' });
+  }
+
+  shardStats(): Promise<ShardStats[]> {
+    return this.request({ op: 'stats' });
+  }
+
+  /** Close the port; pending requests are rejected */
+  close(): void {
+    this.port.close();
+    this.rejectAll("Client closed");
+  }
+
+  private request<T>(body: RequestBody<K, V>): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new Error("Client closed"));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: value => resolve(value as T), reject });
+      this.port.postMessage({ ...body, id });
+    });
+  }
+
+  private rejectAll(message: string): void {
+    this.closed = true;
+    for (const waiter of this.pending.values()) {
+      waiter.reject(new Error(message));
+    }
+    this.pending.clear();
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+/*
+// Main thread
+const owner = new ShardedCacheOwner(new ShardedCache<string, string>(100000, { shards: 32 }));
+const port = owner.connect();
+const worker = new Worker('./worker.js', { workerData: { port }, transferList: [port] });
+
+// worker.js
+const cache = new ShardedCacheClient<string, string>(workerData.port);
+await cache.put('user:1', 'Ada');
+const name = await cache.get('user:1');
+*/
+
+export {
+  ShardedCache,
+  ShardedCacheOwner,
+  ShardedCacheClient,
+  type ShardedCacheOptions,
+  type ShardStats
+};
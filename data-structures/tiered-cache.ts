@@ -0,0 +1,300 @@
+/**
+ * Two-Tier Cache (Near Cache)
+ *
+ * A small in-process LRUCache (L1) in front of a larger, slower shared
+ * store (L2) such as Redis or disk. Classic system design pattern: L1
+ * absorbs hot reads with no network hop, L2 is shared by every server.
+ *
+ * Key Concepts:
+ * - Reads fall through L1 -> L2 and promote L2 hits into L1
+ * - Write-through: set() resolves after L2 has the value (consistent)
+ * - Write-behind: set() updates L1 and queues the L2 write; the queue is
+ *   flushed in batches (fast writes, risk of losing unflushed data)
+ * - Invalidation: when another server changes a key in L2, the store
+ *   notifies us and we drop our L1 copy so it can't go stale
+ */
+
+import { LRUCache, type LRUCacheOptions } from './lru-cache';
+import { systemClock, type Clock, type ClockTimer } from './clock';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface InvalidationEvent {
+  key: string;
+  /** Id of the writer, so a tier can ignore its own writes */
+  origin?: string;
+}
+
+/**
+ * Slow shared store. Shaped like RateLimitStore in rate-limiter.ts, so a
+ * Redis client wrapper can implement both.
+ */
+interface L2Store<V> {
+  get(key: string): Promise<V | null>;
+  set(key: string, value: V, origin?: string): Promise<void>;
+  delete(key: string, origin?: string): Promise<void>;
+
+  /** Optional change feed (e.g. Redis pub/sub). Returns an unsubscribe function. */
+  subscribe?(listener: (event: InvalidationEvent) => void): () => void;
+}
+
+type WriteMode = 'write-through' | 'write-behind';
+
+interface TieredCacheOptions<V> {
+  writeMode?: WriteMode;       // Default: write-through
+  flushInterval?: number;      // Write-behind: ms between flushes (default 1000)
+  maxPendingWrites?: number;   // Write-behind: flush early at this many (default 100)
+  l1Options?: Pick<LRUCacheOptions<string, V>, 'policy' | 'sizeOf' | 'maxWeight'>;
+  clock?: Clock;               // Drives the flush timer (default: system clock)
+}
+
+type PendingWrite<V> = { op: 'set'; value: V } | { op: 'delete' };
+
+let nextTierId = 0;
+
+// ============================================================================
+// TIERED CACHE IMPLEMENTATION
+// ============================================================================
+
+class TieredCache<V> {
+  readonly id = `tier-${process.pid}-${nextTierId++}`;
+  private l1: LRUCache<string, V>;
+  private store: L2Store<V>;
+  private writeMode: WriteMode;
+  private maxPendingWrites: number;
+  private pending: Map<string, PendingWrite<V>> = new Map(); // Latest write per key wins
+  private inflight: Map<string, PendingWrite<V>> = new Map(); // Batch being written to L2
+  private flushing: Promise<number> | null = null;
+  private reads: Map<string, { readers: number; version: number }> = new Map(); // L2 reads in flight
+  private clock: Clock;
+  private flushTimer: ClockTimer | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(l1Capacity: number, store: L2Store<V>, options: TieredCacheOptions<V> = {}) {
+    this.l1 = new LRUCache(l1Capacity, options.l1Options);
+    this.store = store;
+    this.writeMode = options.writeMode ?? 'write-through';
+    this.maxPendingWrites = options.maxPendingWrites ?? 100;
+    this.clock = options.clock ?? systemClock;
+
+    if (this.writeMode === 'write-behind') {
+      this.flushTimer = this.clock.setInterval(() => {
+        void this.flush();
+      }, options.flushInterval ?? 1000);
+      this.flushTimer.unref();
+    }
+
+    if (store.subscribe) {
+      this.unsubscribe = store.subscribe(event => {
+        if (event.origin !== this.id) {
+          this.l1.delete(event.key);
+          // A read already under way may have fetched the old value
+          const read = this.reads.get(event.key);
+          if (read) read.version++;
+        }
+      });
+    }
+  }
+
+  /**
+   * L1 -> unflushed writes -> writes being flushed -> L2. L2 hits are
+   * promoted into L1.
+   */
+  async get(key: string): Promise<V | undefined> {
+    const cached = this.l1.get(key);
+    if (cached !== undefined) return cached;
+
+    // A dirty entry evicted from L1 before its flush is still the newest
+    // value, and so is one whose L2 write hasn't settled yet
+    const unflushed = this.pending.get(key) ?? this.inflight.get(key);
+    if (unflushed) return unflushed.op === 'set' ? unflushed.value : undefined;
+
+    const read = this.reads.get(key) ?? { readers: 0, version: 0 };
+    read.readers++;
+    this.reads.set(key, read);
+    const version = read.version;
+
+    let stored: V | null;
+    try {
+      stored = await this.store.get(key);
+    } finally {
+      if (--read.readers === 0) this.reads.delete(key);
+    }
+    if (stored === null) return undefined;
+
+    // A write made while L2 was being read is newer than what we read:
+    // another server's shows up as an invalidation, ours as a local entry.
+    // Promoting would keep the old value in L1.
+    const invalidated = read.version !== version;
+    if (!invalidated && !this.pending.has(key) && !this.inflight.has(key) && !this.l1.has(key)) {
+      this.l1.put(key, stored);
+    }
+    return stored;
+  }
+
+  async set(key: string, value: V): Promise<void> {
+    if (this.writeMode === 'write-through') {
+      await this.store.set(key, value, this.id);
+      this.l1.put(key, value);
+      return;
+    }
+
+    this.l1.put(key, value);
+    this.enqueue(key, { op: 'set', value });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.l1.delete(key);
+
+    if (this.writeMode === 'write-through') {
+      await this.store.delete(key, this.id);
+      return;
+    }
+
+    this.enqueue(key, { op: 'delete' });
+  }
+
+  /**
+   * Write queued changes to L2. Failed writes are re-queued unless a newer
+   * write for the same key arrived meanwhile. Returns the number written.
+   */
+  flush(): Promise<number> {
+    if (this.flushing) {
+      // Chain so writes queued during the current flush are not missed
+      return this.flushing.then(() => this.flush());
+    }
+
+    this.flushing = this.drain().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /** Writes waiting for the next flush */
+  get pendingWrites(): number {
+    return this.pending.size;
+  }
+
+  /** Entries currently held in L1 */
+  get l1Size(): number {
+    return this.l1.size;
+  }
+
+  /**
+   * Flush outstanding writes and stop listening for invalidations
+   */
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      this.clock.clearTimer(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    await this.flush();
+  }
+
+  private enqueue(key: string, write: PendingWrite<V>): void {
+    // Re-insert so Map order reflects the latest write
+    this.pending.delete(key);
+    this.pending.set(key, write);
+
+    if (this.pending.size >= this.maxPendingWrites) {
+      void this.flush();
+    }
+  }
+
+  private async drain(): Promise<number> {
+    // Flushes never overlap, so there is one in-flight batch at a time
+    const batch = this.pending;
+    this.pending = new Map();
+    this.inflight = batch;
+
+    const results = await Promise.allSettled(
+      [...batch].map(([key, write]) =>
+        write.op === 'set'
+          ? this.store.set(key, write.value, this.id)
+          : this.store.delete(key, this.id)
+      )
+    );
+    this.inflight = new Map();
+
+    let written = 0;
+    const keys = [...batch.keys()];
+
+    results.forEach((result, index) => {
+      const key = keys[index];
+      if (result.status === 'fulfilled') {
+        written++;
+      } else if (!this.pending.has(key)) {
+        console.error("L2 write failed, will retry:", result.reason);
+        this.pending.set(key, batch.get(key)!);
+      }
+    });
+
+    return written;
+  }
+}
+
+// ============================================================================
+// IN-MEMORY L2 STORE (Redis stand-in for tests and examples)
+// ============================================================================
+
+class InMemoryL2Store<V> implements L2Store<V> {
+  private data: Map<string, V> = new Map();
+  private listeners: Set<(event: InvalidationEvent) => void> = new Set();
+
+  async get(key: string): Promise<V | null> {
+    return this.data.has(key) ? this.data.get(key)! : null;
+  }
+
+  async set(key: string, value: V, origin?: string): Promise<void> {
+    this.data.set(key, value);
+    this.publish({ key, origin });
+  }
+
+  async delete(key: string, origin?: string): Promise<void> {
+    this.data.delete(key);
+    this.publish({ key, origin });
+  }
+
+  subscribe(listener: (event: InvalidationEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get size(): number {
+    return this.data.size;
+  }
+
+  private publish(event: InvalidationEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+}
+
+// ============================================================================
+// USAGE EXAMPLES
+// ============================================================================
+
+// Example: Every server keeps 1,000 hot profiles in memory in front of a
+// shared store, batching writes every 500ms
+//
+//   const sharedStore = new InMemoryL2Store<{ name: string }>();
+//   const profileCache = new TieredCache(1000, sharedStore, {
+//     writeMode: 'write-behind',
+//     flushInterval: 500
+//   });
+
+export {
+  TieredCache,
+  InMemoryL2Store,
+  type L2Store,
+  type InvalidationEvent,
+  type TieredCacheOptions,
+  type WriteMode
+};
@@ -11,6 +11,7 @@
  * - In-memory storage (simulating a KV store like Redis)
  */
 
+import { systemClock, type Clock } from '../data-structures/clock';
 
 interface URLMetadata {
   longUrl: string;
@@ -52,6 +53,11 @@ export class URLShortenerService {
   private readonly BASE62_CHARS = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
   private readonly BASE_DOMAIN = 'short.ly';
 
+  /**
+   * @param clock Time source for expiration (inject a FakeClock in tests)
+   */
+  constructor(private readonly clock: Clock = systemClock) {}
+
   /**
    * Helper: Encode number to base62 string
    * Example: 1000 -> "G8"
@@ -82,7 +88,7 @@ export class URLShortenerService {
    */
   private isExpired(metadata: URLMetadata): boolean {
     if (metadata.expiresAt === null) return false;
-    return Date.now() > metadata.expiresAt;
+    return this.clock.now() > metadata.expiresAt;
   }
 
   /**
@@ -112,7 +118,7 @@ export class URLShortenerService {
    *    - Keep incrementing counter if collision detected (defensive coding)
    *
    * 3. Calculate expiration:
-   *    - If ttlSeconds provided: expiresAt = Date.now() + (ttlSeconds * 1000)
+   *    - If ttlSeconds provided: expiresAt = this.clock.now() + (ttlSeconds * 1000)
    *    - Otherwise: expiresAt = null (no expiration)
    *
    * 4. Store metadata in this.store with shortCode as key
@@ -0,0 +1,163 @@
+/**
+ * Test the Cache Workload Simulator
+ * Run with: pnpm test:cache-simulator
+ */
+
+import {
+  simulate,
+  zipfTrace,
+  loopTrace,
+  scanTrace,
+  parseTrace,
+  formatTable,
+  toCSV
+} from '../data-structures/cache-simulator';
+import { LRUCache } from '../data-structures/lru-cache';
+
+// ============================================================================
+// Test 1: Workload Generators
+// ============================================================================
+function testGenerators() {
+  console.log('\n=== Test 1: Workload Generators ===');
+
+  const zipf = zipfTrace(1000, 10000);
+  const counts = new Map<number, number>();
+  for (const key of zipf) counts.set(key as number, (counts.get(key as number) ?? 0) + 1);
+  const top = counts.get(0) ?? 0;
+  const tail = counts.get(999) ?? 0;
+  console.log(`Zipf: key 0 seen ${top}x, key 999 seen ${tail}x (expected: key 0 far more often)`);
+
+  const loop = loopTrace(3, 7);
+  const scan = scanTrace(3, 10);
+  console.log(`Loop(3, 7): ${loop.join(',')} (expected: 0,1,2,0,1,2,0)`);
+  console.log(`Scan(3, offset 10): ${scan.join(',')} (expected: 10,11,12)`);
+
+  const passed =
+    zipf.length === 10000 &&
+    top > tail * 10 &&
+    loop.join(',') === '0,1,2,0,1,2,0' &&
+    scan.join(',') === '10,11,12';
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Hit Ratios Match Known Behaviour
+// ============================================================================
+function testHitRatios() {
+  console.log('\n=== Test 2: Known Hit Ratios ===');
+
+  const results = simulate(
+    [
+      { name: 'loop', trace: loopTrace(11, 1100) },  // cycle one larger than the cache
+      { name: 'repeat', trace: loopTrace(5, 100) }   // fits in the cache
+    ],
+    {
+      capacities: [10],
+      caches: [{ name: 'LRU', create: capacity => new LRUCache(capacity) }]
+    }
+  );
+
+  const [loop, repeat] = results;
+  console.log(`LRU on loop of 11 with capacity 10: ${loop.hitRatio} (expected: 0)`);
+  console.log(`LRU on loop of 5 with capacity 10: ${repeat.hitRatio} (expected: 0.95)`);
+
+  const passed =
+    results.length === 2 &&
+    loop.hits === 0 &&
+    repeat.hits === 95 &&
+    repeat.hitRatio === 0.95 &&
+    repeat.requests === 100;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Every Cache at Every Capacity
+// ============================================================================
+function testDefaultCaches() {
+  console.log('\n=== Test 3: Default Caches x Capacities ===');
+
+  const results = simulate([{ name: 'zipf', trace: zipfTrace(500, 5000) }], { capacities: [10, 100] });
+  const caches = [...new Set(results.map(r => r.cache))];
+  console.log(`Caches: ${caches.join(', ')}`);
+  console.log(`Results: ${results.length} (expected: ${caches.length * 2})`);
+
+  // A bigger cache never hurts these policies on a Zipf trace
+  const improves = caches.every(name => {
+    const [small, large] = results.filter(r => r.cache === name);
+    return large.hitRatio >= small.hitRatio;
+  });
+  console.log(`Hit ratio grows with capacity for every cache: ${improves}`);
+
+  console.log(formatTable(results));
+
+  const passed = caches.length >= 3 && results.length === caches.length * 2 && improves;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 4: Trace Parsing and CSV Output
+// ============================================================================
+function testTraceAndCSV() {
+  console.log('\n=== Test 4: Trace Files and CSV ===');
+
+  const trace = parseTrace('# key,timestamp\nuser:1,100\n\nuser:2 200\r\nuser:1,300\n');
+  console.log(`Parsed keys: ${trace.join(' ')} (expected: user:1 user:2 user:1)`);
+
+  const csv = toCSV(simulate([{ name: 'file, v1', trace }], {
+    capacities: [2],
+    caches: [{ name: 'LRU', create: capacity => new LRUCache(capacity) }]
+  }));
+  const lines = csv.trim().split('\n');
+  console.log(`CSV:\n${csv.trim()}`);
+
+  const passed =
+    trace.join(' ') === 'user:1 user:2 user:1' &&
+    lines.length === 2 &&
+    lines[0].startsWith('workload,capacity,cache') &&
+    lines[1].startsWith('"file, v1",2,LRU,3,1,0.3333');
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║          Cache Workload Simulator Tests           ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (testGenerators()) passed++; total++;
+    if (testHitRatios()) passed++; total++;
+    if (testDefaultCaches()) passed++; total++;
+    if (testTraceAndCSV()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
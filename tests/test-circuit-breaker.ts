@@ -0,0 +1,411 @@
+/**
+ * Test the circuit breaker and the rate limiter's store failure modes
+ * Run with: pnpm test:circuit-breaker
+ */
+
+import { CircuitBreaker, type CircuitState } from '../data-structures/circuit-breaker';
+import {
+  DistributedRateLimiter,
+  createRateLimitMiddleware,
+  type RateLimitStore,
+  type StoreFailureMode
+} from '../data-structures/rate-limiter';
+import { InMemoryRateLimitStore } from '../data-structures/rate-limit-store';
+import { FakeClock } from '../data-structures/clock';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** A store that can be taken down or made to hang; counts the calls that reach it */
+class FlakyStore implements RateLimitStore {
+  down = false;
+  hung = false;
+  calls = 0;
+
+  constructor(private store: RateLimitStore) {}
+
+  get(key: string) {
+    return this.call(() => this.store.get(key));
+  }
+
+  set(key: string, value: string, expiryMs: number) {
+    return this.call(() => this.store.set(key, value, expiryMs));
+  }
+
+  increment(key: string) {
+    return this.call(() => this.store.increment(key));
+  }
+
+  expire(key: string, expiryMs: number) {
+    return this.call(() => this.store.expire(key, expiryMs));
+  }
+
+  compareAndSet(key: string, expected: string | null, value: string, expiryMs: number) {
+    return this.call(() => this.store.compareAndSet(key, expected, value, expiryMs));
+  }
+
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
+    this.calls++;
+    if (this.down) {
+      throw new Error("connect ECONNREFUSED 127.0.0.1:6379");
+    }
+    if (this.hung) {
+      return new Promise<T>(() => {});
+    }
+    return operation();
+  }
+}
+
+const config = { maxTokens: 2, refillRate: 2, refillInterval: 60000 };
+
+async function allowedCount(limiter: DistributedRateLimiter, key: string, requests: number): Promise<number> {
+  let allowed = 0;
+  for (let i = 0; i < requests; i++) {
+    if ((await limiter.limit(key)).allowed) allowed++;
+  }
+  return allowed;
+}
+
+// ============================================================================
+// Test 1: Closed -> Open -> Half-Open -> Closed
+// ============================================================================
+async function testStateMachine() {
+  console.log('\n=== Test 1: Closed -> Open -> Half-Open -> Closed ===');
+
+  const clock = new FakeClock();
+  const transitions: string[] = [];
+  const breaker = new CircuitBreaker({
+    failureThreshold: 3,
+    resetTimeout: 10000,
+    clock,
+    onStateChange: (state, previous) => transitions.push(`${previous}->${state}`)
+  });
+
+  let calls = 0;
+  const fail = async () => {
+    calls++;
+    throw new Error("backend down");
+  };
+  const succeed = async () => {
+    calls++;
+    return 'ok';
+  };
+  const attempt = (operation: () => Promise<string>) => breaker.execute(operation).catch(() => 'error');
+
+  const start = clock.now();
+  for (let i = 0; i < 5; i++) await attempt(fail);
+  const callsWhileOpen = calls;
+  const openStats = breaker.stats;
+
+  clock.advance(10000);
+  const afterCooldown: CircuitState = breaker.state;
+  await attempt(fail); // the trial fails: open again
+  clock.advance(10000);
+  const result = await attempt(succeed);
+
+  console.log(`Backend calls for 5 attempts: ${callsWhileOpen} (expected: 3)`);
+  console.log(`Rejected while open: ${openStats.rejected}, next attempt in: ${openStats.nextAttemptAt!.getTime() - start}ms (expected: 2, 10000ms)`);
+  console.log(`State after the cooldown: ${afterCooldown} (expected: half-open)`);
+  console.log(`Successful trial: ${result}, state: ${breaker.state} (expected: ok, closed)`);
+  console.log(`Transitions: ${transitions.join(', ')}`);
+
+  const passed =
+    callsWhileOpen === 3 &&
+    openStats.state === 'open' && openStats.rejected === 2 &&
+    openStats.nextAttemptAt!.getTime() - start === 10000 &&
+    afterCooldown === 'half-open' &&
+    result === 'ok' && breaker.state === 'closed' &&
+    transitions.join() === 'closed->open,open->half-open,half-open->open,open->half-open,half-open->closed';
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: One Trial Call at a Time While Half-Open
+// ============================================================================
+async function testSingleTrial() {
+  console.log('\n=== Test 2: One Trial Call at a Time While Half-Open ===');
+
+  const clock = new FakeClock();
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000, clock });
+  await breaker.execute(async () => { throw new Error("down"); }).catch(() => {});
+  clock.advance(1000);
+
+  // Hold the trial open while a second call arrives
+  let finishTrial!: () => void;
+  const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = () => resolve('trial'); }));
+  const concurrent = await breaker.execute(async () => 'second').catch((error: Error) => error.message);
+  finishTrial();
+  const trialResult = await trial;
+
+  console.log(`Concurrent call during the trial: ${concurrent} (expected: Circuit breaker is open)`);
+  console.log(`Trial: ${trialResult}, state: ${breaker.state} (expected: trial, closed)`);
+
+  const passed = concurrent === 'Circuit breaker is open' && trialResult === 'trial' && breaker.state === 'closed';
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Store Failure Modes
+// ============================================================================
+async function testFailureModes() {
+  console.log('\n=== Test 3: Store Failure Modes ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const outcomes: Partial<Record<StoreFailureMode, string>> = {};
+  const statuses: Partial<Record<StoreFailureMode, string>> = {};
+
+  for (const mode of ['throw', 'open', 'closed', 'fallback'] as StoreFailureMode[]) {
+    const store = new FlakyStore(new InMemoryRateLimitStore(clock));
+    const limiter = new DistributedRateLimiter(store, config, clock, { onStoreFailure: mode });
+    store.down = true;
+
+    try {
+      const results = [];
+      for (let i = 0; i < 3; i++) results.push(await limiter.limit('user'));
+      outcomes[mode] = results.map(result => (result.allowed ? 'allow' : `deny(${result.retryAfter}s)`)).join(' ');
+    } catch (error) {
+      outcomes[mode] = `threw: ${(error as Error).message}`;
+    }
+    statuses[mode] = await limiter.getStatus('user').then(
+      status => (status.allowed ? 'allow' : 'deny'),
+      (error: Error) => `threw: ${error.message}`
+    );
+    limiter.destroy();
+  }
+
+  console.log(`throw:    ${outcomes.throw}`);
+  console.log(`open:     ${outcomes.open} (expected: allow allow allow)`);
+  console.log(`closed:   ${outcomes.closed} (expected: deny(30s) x3)`);
+  console.log(`fallback: ${outcomes.fallback} (expected: allow allow deny(30s))`);
+  console.log(`getStatus: ${statuses.throw} / ${statuses.open} / ${statuses.closed} / ${statuses.fallback} (expected: threw / allow / deny / deny)`);
+
+  const passed =
+    outcomes.throw === 'threw: connect ECONNREFUSED 127.0.0.1:6379' &&
+    outcomes.open === 'allow allow allow' &&
+    outcomes.closed === 'deny(30s) deny(30s) deny(30s)' &&
+    outcomes.fallback === 'allow allow deny(30s)' &&
+    statuses.throw === 'threw: connect ECONNREFUSED 127.0.0.1:6379' &&
+    statuses.open === 'allow' && statuses.closed === 'deny' && statuses.fallback === 'deny';
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 4: The Breaker Stops Hammering a Down Store, Then Recovers
+// ============================================================================
+async function testBreakerAroundStore() {
+  console.log('\n=== Test 4: Breaker Around a Down Store ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const store = new FlakyStore(new InMemoryRateLimitStore(clock));
+  const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 5000, clock });
+  const limiter = new DistributedRateLimiter(store, config, clock, { onStoreFailure: 'fallback', circuitBreaker: breaker });
+
+  // The store goes down: three failures open the circuit, the rest skip it
+  store.down = true;
+  const duringOutage = await allowedCount(limiter, 'user', 10);
+  const callsDuringOutage = store.calls;
+  const stateDuringOutage = breaker.state;
+
+  // Back up: after the cooldown one trial closes the circuit again
+  store.down = false;
+  clock.advance(5000);
+  const afterRecovery = await allowedCount(limiter, 'user', 3);
+  const fromStore = (await limiter.getStatus('user')).remaining;
+
+  console.log(`Allowed during the outage (local fallback): ${duringOutage}/10 (expected: 2)`);
+  console.log(`Store calls during the outage: ${callsDuringOutage} (expected: 3)`);
+  console.log(`Circuit during / after: ${stateDuringOutage} / ${breaker.state} (expected: open / closed)`);
+  console.log(`Allowed after recovery: ${afterRecovery}/3, remaining in the store: ${fromStore} (expected: 2, 0)`);
+
+  const passed =
+    duringOutage === 2 && callsDuringOutage === 3 &&
+    stateDuringOutage === 'open' && breaker.state === 'closed' &&
+    afterRecovery === 2 && fromStore === 0;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  limiter.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 5: Middleware Fails Open or Closed
+// ============================================================================
+async function testMiddlewareFailMode() {
+  console.log('\n=== Test 5: Middleware Fails Open or Closed ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const store = new FlakyStore(new InMemoryRateLimitStore(clock));
+  const limiter = new DistributedRateLimiter(store, config, clock);
+  store.down = true;
+
+  const originalError = console.error;
+  const logged: string[] = [];
+  console.error = (...args: unknown[]) => logged.push(args.join(' '));
+
+  const send = async (middleware: ReturnType<typeof createRateLimitMiddleware>) => {
+    let status = 200;
+    let body: unknown;
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(data: unknown) {
+        body = data;
+      },
+      setHeader() {}
+    };
+    await middleware({ ip: '10.0.0.1' }, res, () => {});
+    return { status, body };
+  };
+
+  try {
+    const openMiddleware = createRateLimitMiddleware(limiter, { clock });
+    const open = [];
+    for (let i = 0; i < 3; i++) open.push((await send(openMiddleware)).status);
+
+    const reported: unknown[] = [];
+    const closedMiddleware = createRateLimitMiddleware(limiter, {
+      clock,
+      failMode: 'closed',
+      onError: error => reported.push(error)
+    });
+    const closed = await send(closedMiddleware);
+    await send(closedMiddleware);
+
+    console.log(`Default (fail open) x3: ${open.join(', ')} (expected: 200, 200, 200)`);
+    console.log(`failMode 'closed': ${closed.status} ${JSON.stringify(closed.body)} (expected: 503)`);
+    console.log(`Errors logged by default: ${logged.length} (expected: 1, once per outage)`);
+    console.log(`Errors passed to onError: ${reported.length} (expected: 2)`);
+
+    const passed =
+      open.join() === '200,200,200' &&
+      closed.status === 503 && (closed.body as { error: string }).error === 'Rate limiter unavailable' &&
+      logged.length === 1 && reported.length === 2;
+    console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+    return passed;
+  } finally {
+    console.error = originalError;
+    limiter.destroy();
+  }
+}
+
+// ============================================================================
+// Test 6: A Hung Store Times Out and Opens the Circuit
+// ============================================================================
+async function testTimeout() {
+  console.log('\n=== Test 6: A Hung Store Times Out and Opens the Circuit ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const store = new FlakyStore(new InMemoryRateLimitStore(clock));
+  const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 5000, timeout: 1000, clock });
+  const limiter = new DistributedRateLimiter(store, config, clock, { onStoreFailure: 'closed', circuitBreaker: breaker });
+  store.hung = true;
+
+  const outcomes: string[] = [];
+  for (let i = 0; i < 2; i++) {
+    const check = limiter.limit('user');
+    clock.advance(1000);
+    outcomes.push((await check).allowed ? 'allow' : 'deny');
+  }
+  const { state, totalFailures } = breaker.stats;
+  const timedOut = await breaker.execute(() => new Promise(() => {})).catch((error: Error) => error.message);
+
+  const direct = new CircuitBreaker({ timeout: 500, clock });
+  const slow = direct.execute(() => new Promise(() => {})).catch((error: Error) => error.message);
+  clock.advance(500);
+  const message = await slow;
+  const fast = await direct.execute(async () => 'ok');
+
+  console.log(`Checks against a hung store: ${outcomes.join(', ')} (expected: deny, deny)`);
+  console.log(`Circuit: ${state}, failures: ${totalFailures} (expected: open, 2)`);
+  console.log(`Next call: ${timedOut} (expected: Circuit breaker is open)`);
+  console.log(`Slow call: ${message}, fast call: ${fast}, timers left: ${clock.pendingTimers} (expected: Call timed out after 500ms, ok, 0)`);
+
+  const passed =
+    outcomes.join() === 'deny,deny' &&
+    state === 'open' && totalFailures === 2 &&
+    timedOut === 'Circuit breaker is open' &&
+    message === 'Call timed out after 500ms' && fast === 'ok' && clock.pendingTimers === 0;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  limiter.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 7: Each Outage Starts With a Fresh Fallback
+// ============================================================================
+async function testFallbackReset() {
+  console.log('\n=== Test 7: Each Outage Starts With a Fresh Fallback ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const store = new FlakyStore(new InMemoryRateLimitStore(clock));
+  const limiter = new DistributedRateLimiter(store, config, clock, { onStoreFailure: 'fallback' });
+
+  // Outage: the local fallback's bucket is emptied
+  store.down = true;
+  const firstOutage = await allowedCount(limiter, 'user', 2);
+
+  // Recovery: the store counts again
+  store.down = false;
+  const recovered = await allowedCount(limiter, 'user', 1);
+
+  // Next outage: the fallback starts over instead of where the last one left off
+  store.down = true;
+  const secondOutage = await allowedCount(limiter, 'user', 3);
+
+  console.log(`Allowed in the first outage: ${firstOutage}/2 (expected: 2)`);
+  console.log(`Allowed by the store: ${recovered}/1 (expected: 1)`);
+  console.log(`Allowed in the second outage: ${secondOutage}/3 (expected: 2)`);
+
+  const passed = firstOutage === 2 && recovered === 1 && secondOutage === 2;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  limiter.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║   Circuit Breaker & Store Failure Mode Tests      ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (await testStateMachine()) passed++; total++;
+    if (await testSingleTrial()) passed++; total++;
+    if (await testFailureModes()) passed++; total++;
+    if (await testBreakerAroundStore()) passed++; total++;
+    if (await testMiddlewareFailMode()) passed++; total++;
+    if (await testTimeout()) passed++; total++;
+    if (await testFallbackReset()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,136 @@
+/**
+ * Test the Clock abstraction and the components that use it
+ * Run with: pnpm test:clock
+ */
+
+import { FakeClock } from '../data-structures/clock';
+import { LRUCacheWithTTL } from '../data-structures/lru-cache';
+import { SlidingWindowRateLimiter } from '../data-structures/rate-limiter';
+
+// ============================================================================
+// Test 1: Fake Clock Timers
+// ============================================================================
+function testFakeTimers() {
+  console.log('\n=== Test 1: Fake Clock Timers ===');
+
+  const clock = new FakeClock(1000);
+  const fired: string[] = [];
+
+  clock.setTimeout(() => fired.push(`timeout@${clock.now()}`), 250);
+  const interval = clock.setInterval(() => fired.push(`interval@${clock.now()}`), 100);
+  const cancelled = clock.setTimeout(() => fired.push('cancelled'), 50);
+  clock.clearTimer(cancelled);
+
+  clock.advance(300);
+  console.log(`Fired: ${fired.join(', ')}`);
+  console.log('(expected: interval@1100, interval@1200, timeout@1250, interval@1300)');
+  console.log(`now(): ${clock.now()} (expected: 1300)`);
+
+  clock.clearTimer(interval);
+  clock.advance(1000);
+  console.log(`After clearing the interval: ${fired.length} fired, ${clock.pendingTimers} pending (expected: 4, 0)`);
+
+  const passed =
+    fired.join(',') === 'interval@1100,interval@1200,timeout@1250,interval@1300' &&
+    clock.now() === 2300 &&
+    clock.pendingTimers === 0;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: TTL Cache Without Sleeping
+// ============================================================================
+async function testTTLCache() {
+  console.log('\n=== Test 2: TTL Cache on a Fake Clock ===');
+
+  const clock = new FakeClock();
+  let expired = 0;
+  const cache = new LRUCacheWithTTL<string, number>(10, 1000, {
+    clock,
+    sweepInterval: 500,
+    onEvict: (_key, _value, reason) => {
+      if (reason === 'expired') expired++;
+    }
+  });
+
+  cache.put('a', 1);
+  cache.put('b', 2, 5000);
+
+  clock.advance(999);
+  const beforeExpiry = cache.get('a');
+
+  // The sweeper runs at t=1500 and removes 'a' without anyone reading it
+  clock.advance(600);
+
+  console.log(`get('a') at 999ms: ${beforeExpiry} (expected: 1)`);
+  console.log(`Removed by the sweeper by 1599ms: ${expired} (expected: 1)`);
+  console.log(`has('a'): ${cache.has('a')}, has('b'): ${cache.has('b')} (expected: false, true)`);
+
+  const passed = beforeExpiry === 1 && expired === 1 && !cache.has('a') && cache.has('b');
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await cache.destroy();
+  console.log(`Timers left after destroy(): ${clock.pendingTimers} (expected: 0)`);
+  return passed && clock.pendingTimers === 0;
+}
+
+// ============================================================================
+// Test 3: Rate Limiter Window on a Fake Clock
+// ============================================================================
+async function testRateLimiterWindow() {
+  console.log('\n=== Test 3: Sliding Window on a Fake Clock ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const limiter = new SlidingWindowRateLimiter(60000, 2, clock);
+
+  await limiter.limit('user');
+  clock.advance(30000);
+  await limiter.limit('user');
+  const denied = await limiter.limit('user');
+  console.log(`Third request: allowed=${denied.allowed}, retryAfter=${denied.retryAfter}s (expected: false, 30)`);
+
+  // A minute after the first request, its slot frees up
+  clock.advance(30001);
+  const allowed = await limiter.limit('user');
+  console.log(`After the window slides: allowed=${allowed.allowed} (expected: true)`);
+
+  const passed = !denied.allowed && denied.retryAfter === 30 && allowed.allowed;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║              Clock Abstraction Tests              ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (testFakeTimers()) passed++; total++;
+    if (await testTTLCache()) passed++; total++;
+    if (await testRateLimiterWindow()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -0,0 +1,177 @@
+/**
+ * Test the Loading Cache implementation
+ * Run with: pnpm test:loading-cache
+ */
+
+import { LoadingCache } from '../data-structures/loading-cache';
+
+// ============================================================================
+// Helper function to wait
+// ============================================================================
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ============================================================================
+// Test 1: Read-Through
+// ============================================================================
+async function testReadThrough() {
+  console.log('\n=== Test 1: Read-Through on Miss ===');
+
+  let calls = 0;
+  const cache = new LoadingCache<string, number>(10, {
+    loader: async (key) => {
+      calls++;
+      return key.length;
+    }
+  });
+
+  const first = await cache.get('hello');
+  const second = await cache.get('hello');
+
+  console.log(`First get: ${first}, second get: ${second} (expected: 5, 5)`);
+  console.log(`Loader calls: ${calls} (expected: 1)`);
+
+  const passed = first === 5 && second === 5 && calls === 1;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Request Coalescing
+// ============================================================================
+async function testCoalescing() {
+  console.log('\n=== Test 2: Concurrent Misses Share One Load ===');
+
+  let calls = 0;
+  const cache = new LoadingCache<string, string>(10, {
+    loader: async (key) => {
+      calls++;
+      await sleep(20);
+      return `row:${key}`;
+    }
+  });
+
+  const results = await Promise.all(
+    Array.from({ length: 100 }, () => cache.get('hot'))
+  );
+
+  console.log(`100 concurrent gets -> loader calls: ${calls} (expected: 1)`);
+  console.log(`All callers got the value: ${results.every(r => r === 'row:hot')}`);
+  console.log(`In-flight after settle: ${cache.loading} (expected: 0)`);
+
+  const passed = calls === 1 && results.every(r => r === 'row:hot') && cache.loading === 0;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Negative Caching
+// ============================================================================
+async function testNegativeCaching() {
+  console.log('\n=== Test 3: Negative Caching ===');
+
+  let calls = 0;
+  const loader = async () => {
+    calls++;
+    return undefined;
+  };
+
+  const withNegative = new LoadingCache<string, number>(10, { loader, negativeTTL: 1000 });
+  await withNegative.get('missing');
+  await withNegative.get('missing');
+  const cachedCalls = calls;
+  console.log(`negativeTTL set -> loader calls: ${cachedCalls} (expected: 1)`);
+
+  calls = 0;
+  const withoutNegative = new LoadingCache<string, number>(10, { loader });
+  await withoutNegative.get('missing');
+  await withoutNegative.get('missing');
+  const uncachedCalls = calls;
+  console.log(`negativeTTL unset -> loader calls: ${uncachedCalls} (expected: 2)`);
+
+  calls = 0;
+  const shortNegative = new LoadingCache<string, number>(10, { loader, negativeTTL: 5 });
+  await shortNegative.get('missing');
+  await sleep(15);
+  await shortNegative.get('missing');
+  console.log(`Expired negative entry reloads -> loader calls: ${calls} (expected: 2)`);
+
+  const passed = cachedCalls === 1 && uncachedCalls === 2 && calls === 2;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 4: Loader Errors Don't Poison the Cache
+// ============================================================================
+async function testLoaderErrors() {
+  console.log('\n=== Test 4: Loader Errors ===');
+
+  let fail = true;
+  const cache = new LoadingCache<string, string>(10, {
+    loader: async (key) => {
+      await sleep(5);
+      if (fail) throw new Error('database unavailable');
+      return `row:${key}`;
+    }
+  });
+
+  const outcomes = await Promise.allSettled([cache.get('k'), cache.get('k')]);
+  const bothRejected = outcomes.every(o => o.status === 'rejected');
+  console.log(`Both waiters rejected: ${bothRejected} (expected: true)`);
+  console.log(`Cached after error: ${cache.getIfPresent('k')} (expected: undefined)`);
+
+  fail = false;
+  const retried = await cache.get('k');
+  console.log(`Retry after recovery: ${retried} (expected: row:k)`);
+
+  // A load that finishes after invalidate() must not be cached
+  const stale = cache.get('other');
+  cache.invalidate('other');
+  await stale;
+  console.log(`Invalidated during load cached: ${cache.getIfPresent('other')} (expected: undefined)`);
+
+  const passed =
+    bothRejected &&
+    retried === 'row:k' &&
+    cache.getIfPresent('other') === undefined;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║         Loading Cache Implementation Tests        ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (await testReadThrough()) passed++; total++;
+    if (await testCoalescing()) passed++; total++;
+    if (await testNegativeCaching()) passed++; total++;
+    if (await testLoaderErrors()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
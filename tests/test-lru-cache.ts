@@ -3,7 +3,26 @@
  * Run with: pnpm test:lru
  */
 
-import { LRUCache, LRUCacheWithTTL, LFUCache } from '../data-structures/lru-cache';
+import {
+  LRUCache,
+  LRUCacheWithTTL,
+  LFUCache,
+  ARCCache,
+  WTinyLFUCache,
+  type EvictionReason
+} from '../data-structures/lru-cache';
+import { RandomPolicy } from '../data-structures/eviction-policies';
+import { FakeClock } from '../data-structures/clock';
+
+// Deterministic PRNG (mulberry32) so workload tests are repeatable
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
 // ============================================================================
 // Test 1: Basic Operations
@@ -177,22 +196,22 @@ function testOrderVerification() {
   cache.put('d', 4);
 
   console.log('Initial order:');
-  console.log(`Keys: ${cache.keys().join(' -> ')}`);
+  console.log(`Keys: ${[...cache.keys()].join(' -> ')}`);
   console.log('Expected: d -> c -> b -> a');
 
   // Access 'b' (moves to front)
   cache.get('b');
   console.log('\nAfter get("b"):');
-  console.log(`Keys: ${cache.keys().join(' -> ')}`);
+  console.log(`Keys: ${[...cache.keys()].join(' -> ')}`);
   console.log('Expected: b -> d -> c -> a');
 
   // Add 'e' (evicts 'a')
   cache.put('e', 5);
   console.log('\nAfter put("e", 5):');
-  console.log(`Keys: ${cache.keys().join(' -> ')}`);
+  console.log(`Keys: ${[...cache.keys()].join(' -> ')}`);
   console.log('Expected: e -> b -> d -> c');
 
-  const keys = cache.keys();
+  const keys = [...cache.keys()];
   const passed =
     keys[0] === 'e' &&
     keys[1] === 'b' &&
@@ -239,6 +258,8 @@ function testEdgeCases() {
 
 // ============================================================================
 // Test 8: Performance Test
+// For hit ratio and throughput across workloads and cache classes, use
+// the workload simulator: pnpm simulate:cache
 // ============================================================================
 function testPerformance() {
   console.log('\n=== Test 8: Performance (10,000 operations) ===');
@@ -271,22 +292,639 @@ function testPerformance() {
 function testLRUWithTTL() {
   console.log('\n=== Test 9: LRU Cache with TTL ===');
 
-  const cache = new LRUCacheWithTTL<string, number>(3, 100); // 100ms TTL
+  const clock = new FakeClock();
+  const cache = new LRUCacheWithTTL<string, number>(3, 100, { clock }); // 100ms TTL
 
   cache.put('a', 1);
   console.log(`Immediate get: ${cache.get('a')} (expected: 1)`);
 
-  setTimeout(() => {
-    console.log(`After 150ms: ${cache.get('a')} (expected: undefined - expired)`);
-  }, 150);
+  clock.advance(150);
+  console.log(`After 150ms: ${cache.get('a')} (expected: undefined - expired)`);
+}
+
+// ============================================================================
+// Test 10: Pluggable Eviction Policies
+// ============================================================================
+function testEvictionPolicies() {
+  console.log('\n=== Test 10: Pluggable Eviction Policies ===');
+
+  // Same workload for every policy: fill, touch a twice and b once, add d
+  const victimFor = (cache: LRUCache<string, number>): string | undefined => {
+    cache.put('a', 1);
+    cache.put('b', 2);
+    cache.put('c', 3);
+    cache.get('a');
+    cache.get('a');
+    cache.get('b');
+    cache.put('d', 4);
+    return ['a', 'b', 'c'].find(key => !cache.has(key));
+  };
+
+  const victims = {
+    lru: victimFor(new LRUCache<string, number>(3, { policy: 'lru' })),
+    mru: victimFor(new LRUCache<string, number>(3, { policy: 'mru' })),
+    fifo: victimFor(new LRUCache<string, number>(3, { policy: 'fifo' })),
+    lfu: victimFor(new LRUCache<string, number>(3, { policy: 'lfu' })),
+    random: victimFor(new LRUCache<string, number>(3, { policy: new RandomPolicy<string>(() => 0) })),
+    builtin: victimFor(new LRUCache<string, number>(3))
+  };
+
+  console.log(`Victims: ${JSON.stringify(victims)}`);
+  console.log('Expected: lru=c, mru=b, fifo=a, lfu=c, random=a, builtin=c');
+
+  // ARC keeps frequently used keys through a one-off scan; LRU does not
+  const scan = (cache: LRUCache<string, number>): boolean => {
+    cache.put('hot1', 1);
+    cache.put('hot2', 2);
+    cache.get('hot1');
+    cache.get('hot2');
+    for (let i = 0; i < 20; i++) {
+      cache.put(`scan${i}`, i);
+    }
+    return cache.has('hot1') && cache.has('hot2');
+  };
+
+  const arcSurvived = scan(new LRUCache<string, number>(4, { policy: 'arc' }));
+  const lruSurvived = scan(new LRUCache<string, number>(4));
+
+  console.log(`Hot keys survive scan - ARC: ${arcSurvived} (expected: true), LRU: ${lruSurvived} (expected: false)`);
+
+  const passed =
+    victims.lru === 'c' &&
+    victims.mru === 'b' &&
+    victims.fifo === 'a' &&
+    victims.lfu === 'c' &&
+    victims.random === 'a' &&
+    victims.builtin === 'c' &&
+    arcSurvived &&
+    !lruSurvived;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 11: LFU Cache
+// ============================================================================
+function testLFUCache() {
+  console.log('\n=== Test 11: LFU Cache (LeetCode #460) ===');
+
+  const cache = new LFUCache<number, number>(2);
+  const results: (number | undefined)[] = [];
+
+  cache.put(1, 1);
+  cache.put(2, 2);
+  results.push(cache.get(1));       // returns 1, freq(1) = 2
+  cache.put(3, 3);                  // evicts key 2 (lowest freq)
+  results.push(cache.get(2));       // returns undefined
+  results.push(cache.get(3));       // returns 3, freq(3) = 2
+  cache.put(4, 4);                  // tie at freq 2: evicts key 1 (least recent)
+  results.push(cache.get(1));       // returns undefined
+  results.push(cache.get(3));       // returns 3
+  results.push(cache.get(4));       // returns 4
+
+  console.log(`Results: ${results.join(', ')}`);
+  console.log('Expected: 1, undefined, 3, undefined, 3, 4');
+
+  // Tie-break must not depend on clock resolution: all of this runs
+  // within the same millisecond
+  const tie = new LFUCache<string, number>(3);
+  tie.put('a', 1);
+  tie.put('b', 2);
+  tie.put('c', 3);
+  tie.get('b');
+  tie.get('a');
+  tie.get('c');
+  tie.put('d', 4); // all at freq 2, 'b' was touched first
+  console.log(`Tie-break evicted b: ${!tie.has('b')} (expected: true)`);
+
+  // Eviction must stay fast at large capacities
+  const big = new LFUCache<number, number>(50000);
+  const start = Date.now();
+  for (let i = 0; i < 200000; i++) {
+    big.put(i, i);
+    if (i % 3 === 0) big.get(i);
+  }
+  const duration = Date.now() - start;
+  console.log(`200,000 puts at capacity 50,000: ${duration}ms, size ${big.size} (expected: 50000)`);
+
+  const passed =
+    results[0] === 1 &&
+    results[1] === undefined &&
+    results[2] === 3 &&
+    results[3] === undefined &&
+    results[4] === 3 &&
+    results[5] === 4 &&
+    !tie.has('b') &&
+    tie.has('a') &&
+    big.size === 50000;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 12: Active Expiry in LRU with TTL
+// ============================================================================
+function testTTLActiveExpiry() {
+  console.log('\n=== Test 12: Active Expiry in LRU with TTL ===');
+
+  const clock = new FakeClock();
+  const cache = new LRUCacheWithTTL<string, number>(3, 60000, { clock });
+
+  cache.put('short1', 1, 5);
+  cache.put('short2', 2, 5);
+  cache.put('live', 3);
+
+  clock.advance(15);
+
+  // Only one live entry remains
+  console.log(`has("short1"): ${cache.has('short1')} (expected: false)`);
+  console.log(`Size: ${cache.size} (expected: 1)`);
+  console.log(`Keys: ${cache.keys().join(', ')} (expected: live)`);
+
+  // Filling the cache must not evict the live entry while dead ones exist
+  const cache2 = new LRUCacheWithTTL<string, number>(2, 60000, { clock });
+  cache2.put('live', 1);
+  cache2.put('dead', 2, 5);
+  clock.advance(15);
+  cache2.put('new', 3);
+  console.log(`Live entry kept after insert: ${cache2.has('live')} (expected: true)`);
+
+  // Explicit sweep
+  const cache3 = new LRUCacheWithTTL<string, number>(10, 5, { sweepInterval: 1000, clock });
+  cache3.put('a', 1);
+  cache3.put('b', 2);
+  clock.advance(15);
+  const purged = cache3.purgeExpired();
+  console.log(`purgeExpired(): ${purged} (expected: 2)`);
+
+  // The sweeper purges on its own once its interval passes
+  cache3.put('c', 3);
+  clock.advance(1000);
+  const swept = cache3.size === 0 && clock.pendingTimers === 1;
+  console.log(`Swept by the background timer: ${swept} (expected: true)`);
+  cache3.destroy();
+
+  const passed =
+    !cache.has('short1') &&
+    cache.size === 1 &&
+    cache.keys()[0] === 'live' &&
+    cache2.has('live') &&
+    cache2.has('new') &&
+    purged === 2 &&
+    swept;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 13: Weighted Capacity
+// ============================================================================
+function testWeightedCapacity() {
+  console.log('\n=== Test 13: Weighted Capacity (maxWeight 10) ===');
+
+  const cache = new LRUCache<string, string>(100, {
+    sizeOf: value => value.length,
+    maxWeight: 10
+  });
+
+  cache.put('a', 'xxxx');   // 4
+  cache.put('b', 'xxx');    // 7
+  cache.put('c', 'xx');     // 9
+  console.log(`Total weight: ${cache.totalWeight} (expected: 9)`);
+
+  // Needs 5 but only 1 is free: evicts a (4)
+  cache.put('d', 'xxxxx');
+  const keysAfterD = [...cache.keys()].join(', ');
+  console.log(`Keys after adding 5: ${keysAfterD} (expected: d, c, b)`);
+  console.log(`Total weight: ${cache.totalWeight} (expected: 10)`);
+
+  // Larger than the whole budget: rejected, previous value dropped
+  const stored = cache.put('c', 'x'.repeat(11));
+  console.log(`Oversized put stored: ${stored} (expected: false), has c: ${cache.has('c')}`);
+
+  // Growing an existing entry evicts others, never itself
+  cache.put('e', 'x');
+  cache.put('d', 'x'.repeat(10));
+  console.log(`Keys after growing d: ${[...cache.keys()].join(', ')} (expected: d)`);
+
+  const passed =
+    keysAfterD === 'd, c, b' &&
+    !stored &&
+    !cache.has('c') &&
+    [...cache.keys()].join(',') === 'd' &&
+    cache.totalWeight === 10;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 14: Eviction Callbacks
+// ============================================================================
+async function testEvictionCallbacks() {
+  console.log('\n=== Test 14: Eviction and Lifecycle Callbacks ===');
+
+  const events: string[] = [];
+  const record = (key: string, value: number, reason: EvictionReason) => {
+    events.push(`${key}=${value}:${reason}`);
+  };
+
+  const lru = new LRUCache<string, number>(2, { onEvict: record });
+  lru.put('a', 1);
+  lru.put('b', 2);
+  lru.put('a', 10);   // replaced
+  lru.put('c', 3);    // evicts b
+  lru.delete('c');    // deleted
+  await lru.clear();  // a cleared
+
+  const lruEvents = events.splice(0).join(', ');
+  console.log(`LRU: ${lruEvents}`);
+  console.log('Expected: a=1:replaced, b=2:capacity, c=3:deleted, a=10:cleared');
+
+  const clock = new FakeClock();
+  const ttl = new LRUCacheWithTTL<string, number>(2, 5, { onEvict: record, clock });
+  ttl.put('x', 1);
+  clock.advance(15);
+  ttl.get('x');       // expired
+  const ttlEvents = events.splice(0).join(', ');
+  console.log(`TTL: ${ttlEvents} (expected: x=1:expired)`);
+
+  const lfu = new LFUCache<string, number>(1, { onEvict: record });
+  lfu.put('p', 1);
+  lfu.put('q', 2);    // evicts p
+  const lfuEvents = events.splice(0).join(', ');
+  console.log(`LFU: ${lfuEvents} (expected: p=1:capacity)`);
+
+  // clear() waits for async disposal
+  const closed: string[] = [];
+  const files = new LRUCache<string, number>(10, {
+    dispose: async (key) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      closed.push(key);
+    }
+  });
+  files.put('f1', 1);
+  files.put('f2', 2);
+  await files.clear();
+  console.log(`Disposed before clear() resolved: ${closed.sort().join(', ')} (expected: f1, f2)`);
+
+  const passed =
+    lruEvents === 'a=1:replaced, b=2:capacity, c=3:deleted, a=10:cleared' &&
+    ttlEvents === 'x=1:expired' &&
+    lfuEvents === 'p=1:capacity' &&
+    closed.join(',') === 'f1,f2';
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 15: Cache Statistics
+// ============================================================================
+function testStats() {
+  console.log('\n=== Test 15: Cache Statistics ===');
+
+  const lru = new LRUCache<string, number>(2);
+  lru.put('a', 1);
+  lru.put('b', 2);
+  lru.put('a', 11);  // update
+  lru.get('a');      // hit
+  lru.get('z');      // miss
+  lru.put('c', 3);   // evicts b
+  lru.debug();
+
+  const lruStats = lru.stats();
+  console.log(`LRU: ${JSON.stringify(lruStats)}`);
+
+  const clock = new FakeClock();
+  const ttl = new LRUCacheWithTTL<string, number>(2, 5, { clock });
+  ttl.put('x', 1);
+  ttl.get('x');      // hit
+  clock.advance(15);
+  ttl.get('x');      // miss + expiration
+  const ttlStats = ttl.stats();
+  ttl.debug();
+
+  const lfu = new LFUCache<string, number>(1);
+  lfu.put('p', 1);
+  lfu.get('p');      // hit
+  lfu.put('q', 2);   // evicts p
+  lfu.get('p');      // miss
+  const lfuStats = lfu.stats();
+  lfu.debug();
+
+  lru.resetStats();
+
+  const passed =
+    lruStats.hits === 1 &&
+    lruStats.misses === 1 &&
+    lruStats.insertions === 3 &&
+    lruStats.updates === 1 &&
+    lruStats.evictions === 1 &&
+    lruStats.hitRatio === 0.5 &&
+    ttlStats.hits === 1 &&
+    ttlStats.misses === 1 &&
+    ttlStats.expirations === 1 &&
+    lfuStats.evictions === 1 &&
+    lfuStats.hitRatio === 0.5 &&
+    lru.stats().hits === 0;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 16: Stale-While-Revalidate
+// ============================================================================
+async function testStaleWhileRevalidate() {
+  console.log('\n=== Test 16: Stale-While-Revalidate ===');
+
+  let version = 1;
+  let refreshes = 0;
+  const clock = new FakeClock();
+  const cache = new LRUCacheWithTTL<string, string>(10, 60000, {
+    clock,
+    refresher: async (key) => {
+      refreshes++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return `${key}@v${++version}`;
+    }
+  });
+
+  cache.put('config', 'config@v1', { soft: 5, hard: 60000 });
+  clock.advance(15);
+
+  // Stale: returned immediately, one refresh started for both reads
+  const stale1 = cache.get('config');
+  const stale2 = cache.get('config');
+  console.log(`Stale reads: ${stale1}, ${stale2} (expected: config@v1 twice)`);
+
+  await cache.refresh('config');
+  const fresh = cache.get('config');
+  console.log(`After refresh: ${fresh} (expected: config@v2), refreshes: ${refreshes} (expected: 1)`);
+  console.log(`Stale after refresh: ${cache.isStale('config')} (expected: false)`);
+
+  // Past the hard TTL the entry is a plain miss
+  cache.put('gone', 'x', { soft: 2, hard: 5 });
+  clock.advance(15);
+  const expired = cache.get('gone');
+  console.log(`After hard TTL: ${expired} (expected: undefined)`);
+
+  const passed =
+    stale1 === 'config@v1' &&
+    stale2 === 'config@v1' &&
+    fresh === 'config@v2' &&
+    refreshes === 1 &&
+    expired === undefined;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 17: Snapshot and Restore
+// ============================================================================
+async function testSnapshotRestore() {
+  console.log('\n=== Test 17: Snapshot and Restore ===');
+
+  // LRU: recency order survives a round trip
+  const lru = new LRUCache<string, number>(3);
+  lru.put('a', 1);
+  lru.put('b', 2);
+  lru.put('c', 3);
+  lru.get('a');
+  const restoredLRU = LRUCache.deserialize<string, number>(lru.serialize());
+  console.log(`LRU keys: ${[...restoredLRU.keys()].join(' -> ')} (expected: a -> c -> b)`);
+
+  // Streaming JSON lines with a custom codec (Date <-> ISO string)
+  const dates = new LRUCache<string, Date>(10);
+  dates.put('launch', new Date('2024-01-01T00:00:00Z'));
+  const codec = {
+    encode: (value: Date) => value.toISOString(),
+    decode: (data: unknown) => new Date(data as string)
+  };
+  const lines = [...dates.serializeLines(codec)];
+  const restoredDates = await LRUCache.deserializeLines<string, Date>(lines, { codec });
+  const launch = restoredDates.get('launch');
+  console.log(`JSON lines: ${lines.length} (expected: 2), decoded Date: ${launch instanceof Date}`);
+
+  // TTL: absolute expiry is kept, expired entries are dropped. Taking the
+  // snapshot skips already-expired entries without evicting them.
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const ttlEvictions: string[] = [];
+  const ttl = new LRUCacheWithTTL<string, number>(10, 60000, { clock, onEvict: key => ttlEvictions.push(key) });
+  ttl.put('long', 1);
+  ttl.put('short', 2, 5);
+  ttl.put('gone', 3, 1);
+  clock.advance(2);
+  const ttlSnapshot = ttl.serialize();
+  clock.advance(10);
+  const restoredTTL = LRUCacheWithTTL.deserialize<string, number>(ttlSnapshot, { clock });
+  console.log(`TTL keys: ${restoredTTL.keys().join(', ')} (expected: long)`);
+  console.log(`Expired entry in snapshot: ${ttlSnapshot.includes('"gone"')}, evictions while serializing: ${ttlEvictions.length} (expected: false, 0)`);
+
+  // LFU: frequencies survive, so eviction order matches the original
+  const lfu = new LFUCache<string, number>(2);
+  lfu.put('x', 1);
+  lfu.put('y', 2);
+  lfu.get('x');
+  lfu.get('x');
+  const restoredLFU = LFUCache.deserialize<string, number>(lfu.serialize());
+  restoredLFU.put('z', 3); // evicts y (freq 1)
+  console.log(`LFU freq(x): ${restoredLFU.frequency('x')} (expected: 3), has y: ${restoredLFU.has('y')} (expected: false)`);
+
+  let wrongType = false;
+  try {
+    LFUCache.deserialize(lru.serialize());
+  } catch {
+    wrongType = true;
+  }
+  console.log(`Rejects LRU snapshot as LFU: ${wrongType} (expected: true)`);
+
+  const passed =
+    [...restoredLRU.keys()].join(',') === 'a,c,b' &&
+    lines.length === 2 &&
+    launch instanceof Date &&
+    launch.getTime() === Date.parse('2024-01-01T00:00:00Z') &&
+    restoredTTL.keys().join(',') === 'long' &&
+    !ttlSnapshot.includes('"gone"') &&
+    ttlEvictions.length === 0 &&
+    restoredLFU.frequency('x') === 3 &&
+    !restoredLFU.has('y') &&
+    wrongType;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
 
-  console.log('(TTL test runs async - check output above)');
+  return passed;
+}
+
+// ============================================================================
+// Test 18: Map-Compatible API
+// ============================================================================
+function testMapCompatibility() {
+  console.log('\n=== Test 18: Map-Compatible API ===');
+
+  // Works where a Map is expected
+  const countWords = (map: Map<string, number>, words: string[]) => {
+    for (const word of words) {
+      map.set(word, (map.get(word) ?? 0) + 1);
+    }
+    return map;
+  };
+
+  const cache = new LRUCache<string, number>(3);
+  countWords(cache, ['a', 'b', 'a', 'c']);
+
+  const entries = [...cache].map(([k, v]) => `${k}=${v}`).join(', ');
+  console.log(`Entries (MRU -> LRU): ${entries} (expected: c=1, a=2, b=1)`);
+
+  // peek does not change recency
+  const peeked = cache.peek('b');
+  cache.put('d', 4); // evicts b anyway
+  console.log(`peek("b"): ${peeked}, has b after insert: ${cache.has('b')} (expected: 1, false)`);
+
+  // delete unlinks the node from the list
+  cache.delete('a');
+  const afterDelete = [...cache.keys()].join(', ');
+  console.log(`Keys after delete("a"): ${afterDelete} (expected: d, c)`);
+
+  const visited: string[] = [];
+  cache.forEach((value, key) => visited.push(`${key}:${value}`));
+  console.log(`forEach: ${visited.join(', ')}, toString: ${Object.prototype.toString.call(cache)}`);
+
+  // Iterators are lazy: deleting while iterating is safe
+  for (const key of cache.keys()) {
+    cache.delete(key);
+  }
+  console.log(`Size after deleting during iteration: ${cache.size} (expected: 0)`);
+
+  const passed =
+    entries === 'c=1, a=2, b=1' &&
+    peeked === 1 &&
+    !cache.has('b') &&
+    afterDelete === 'd, c' &&
+    visited.join(',') === 'd:4,c:1' &&
+    cache.size === 0;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 19: ARC and W-TinyLFU Caches
+// ============================================================================
+function testScanResistantCaches() {
+  console.log('\n=== Test 19: ARC and W-TinyLFU (scan resistance) ===');
+
+  // Same surface as LRUCache
+  const arc = new ARCCache<number, string>(2);
+  arc.put(1, 'one');
+  arc.put(2, 'two');
+  arc.put(3, 'three');
+  const arcBasics = arc.size === 2 && arc.get(3) === 'three';
+
+  const tiny = new WTinyLFUCache<number, string>(2);
+  tiny.put(1, 'one');
+  tiny.put(2, 'two');
+  tiny.put(3, 'three');
+  const tinyBasics = tiny.size === 2 && tiny.get(3) === 'three';
+  console.log(`Basic get/put/size: ARC ${arcBasics}, W-TinyLFU ${tinyBasics} (expected: true, true)`);
+
+  // Hot set of 50 keys, then a one-off scan of 1000 keys, then the hot set again
+  type Cache = { get(key: number): string | undefined; put(key: number, value: string): unknown };
+  const hotHitsAfterScan = (cache: Cache) => {
+    for (let round = 0; round < 5; round++) {
+      for (let key = 0; key < 50; key++) {
+        if (cache.get(key) === undefined) cache.put(key, `hot-${key}`);
+      }
+    }
+    for (let key = 1000; key < 2000; key++) {
+      if (cache.get(key) === undefined) cache.put(key, `scan-${key}`);
+    }
+    let hits = 0;
+    for (let key = 0; key < 50; key++) {
+      if (cache.get(key) !== undefined) hits++;
+    }
+    return hits;
+  };
+
+  const lruHits = hotHitsAfterScan(new LRUCache<number, string>(100));
+  const arcHits = hotHitsAfterScan(new ARCCache<number, string>(100));
+  const tinyHits = hotHitsAfterScan(new WTinyLFUCache<number, string>(100));
+
+  console.log(`Hot keys still cached after scan: LRU ${lruHits}, ARC ${arcHits}, W-TinyLFU ${tinyHits}`);
+  console.log('(expected: LRU 0, ARC and W-TinyLFU keep most of the 50)');
+
+  const passed = arcBasics && tinyBasics && lruHits === 0 && arcHits >= 40 && tinyHits >= 40;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 20: W-TinyLFU Admission on a Skewed Workload
+// ============================================================================
+function testTinyLFUAdmission() {
+  console.log('\n=== Test 20: W-TinyLFU Admission (Zipf-like workload) ===');
+
+  // Frequency sketch: the doorkeeper absorbs the first sighting
+  const cache = new WTinyLFUCache<string, number>(100);
+  for (let i = 0; i < 10; i++) cache.get('popular');
+  cache.get('once');
+  const popular = cache.frequency('popular');
+  const once = cache.frequency('once');
+  const unseen = cache.frequency('never');
+  console.log(`Estimates: popular ${popular}, once ${once}, unseen ${unseen} (expected: ~10, 1, 0)`);
+  const sketchOk = popular >= 9 && once === 1 && unseen === 0;
+
+  // Skewed keys: key k is requested with probability ~ 1/k
+  const random = seededRandom(42);
+  const keys = 5000;
+  const weights = Array.from({ length: keys }, (_, i) => 1 / (i + 1));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+  const trace: number[] = [];
+  for (let i = 0; i < 50000; i++) {
+    let r = random() * totalWeight;
+    let key = 0;
+    while (r > weights[key] && key < keys - 1) r -= weights[key++];
+    trace.push(key);
+  }
+
+  const hitRatio = (cache: { get(key: number): number | undefined; put(key: number, value: number): unknown }) => {
+    let hits = 0;
+    for (const key of trace) {
+      if (cache.get(key) !== undefined) hits++;
+      else cache.put(key, key);
+    }
+    return hits / trace.length;
+  };
+
+  const lru = hitRatio(new LRUCache<number, number>(100));
+  const tiny = hitRatio(new WTinyLFUCache<number, number>(100));
+  console.log(`Hit ratio: LRU ${(lru * 100).toFixed(1)}%, W-TinyLFU ${(tiny * 100).toFixed(1)}%`);
+  console.log('(expected: W-TinyLFU higher)');
+
+  const passed = sketchOk && tiny > lru;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
 }
 
 // ============================================================================
 // Run All Tests
 // ============================================================================
-function runAllTests() {
+async function runAllTests() {
   console.log('╔════════════════════════════════════════════════════╗');
   console.log('║           LRU Cache Implementation Tests          ║');
   console.log('╚════════════════════════════════════════════════════╝');
@@ -307,6 +945,18 @@ function runAllTests() {
     testPerformance(); total++;
     testLRUWithTTL();
 
+    if (testEvictionPolicies()) passed++; total++;
+    if (testLFUCache()) passed++; total++;
+    if (testTTLActiveExpiry()) passed++; total++;
+    if (testWeightedCapacity()) passed++; total++;
+    if (await testEvictionCallbacks()) passed++; total++;
+    if (testStats()) passed++; total++;
+    if (await testStaleWhileRevalidate()) passed++; total++;
+    if (await testSnapshotRestore()) passed++; total++;
+    if (testMapCompatibility()) passed++; total++;
+    if (testScanResistantCaches()) passed++; total++;
+    if (testTinyLFUAdmission()) passed++; total++;
+
     console.log('\n╔════════════════════════════════════════════════════╗');
     console.log(`║  Tests Passed: ${passed}/${total}${' '.repeat(38 - passed.toString().length - total.toString().length)}║`);
     console.log('╚════════════════════════════════════════════════════╝\n');
@@ -0,0 +1,322 @@
+/**
+ * Test the HTTP adapters against a real local server
+ * Run with: pnpm test:rate-limit-http
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  nodeRateLimit,
+  expressRateLimit,
+  fastifyRateLimit,
+  fetchRateLimit,
+  type FastifyReply
+} from '../data-structures/rate-limit-http';
+import { RateLimiter } from '../data-structures/rate-limiter';
+import { RateLimitRules } from '../data-structures/rate-limit-rules';
+import { FakeClock } from '../data-structures/clock';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Serve `listener` on a free local port for the duration of `run` */
+async function withServer(
+  listener: (req: IncomingMessage, res: ServerResponse) => void,
+  run: (baseUrl: string) => Promise<boolean>
+): Promise<boolean> {
+  const server = createServer(listener);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    return await run(`http://127.0.0.1:${port}`);
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+}
+
+/** Status codes of `count` sequential requests */
+async function statuses(url: string, count: number, init: RequestInit = {}): Promise<number[]> {
+  const codes: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const response = await fetch(url, init);
+    await response.arrayBuffer();
+    codes.push(response.status);
+  }
+  return codes;
+}
+
+// Limiters and adapters share one clock, so header times are exact
+const clock = new FakeClock(Date.UTC(2024, 0, 1));
+const twoPerMinute = () => new RateLimiter({ maxTokens: 2, refillRate: 2, refillInterval: 60000 }, clock);
+
+// ============================================================================
+// Test 1: Node.js http
+// ============================================================================
+async function testNodeAdapter() {
+  console.log('\n=== Test 1: Node.js http Adapter ===');
+
+  const limiter = twoPerMinute();
+  const proxied = twoPerMinute();
+  const ok = (_req: IncomingMessage, res: ServerResponse) => res.end('ok');
+  const direct = nodeRateLimit(limiter, ok, { clock });
+  const behindProxy = nodeRateLimit(proxied, ok, { clock, trustProxy: true });
+
+  const passed = await withServer(
+    (req, res) => (req.url === '/proxied' ? behindProxy(req, res) : direct(req, res)),
+    async baseUrl => {
+      const codes = await statuses(`${baseUrl}/`, 3);
+      const denied = await fetch(`${baseUrl}/`);
+      const body = (await denied.json()) as { error: string };
+
+      // Behind a trusted proxy, each forwarded client gets its own bucket
+      const forwarded = [
+        ...(await statuses(`${baseUrl}/proxied`, 2, { headers: { 'X-Forwarded-For': '203.0.113.1, 10.0.0.1' } })),
+        ...(await statuses(`${baseUrl}/proxied`, 1, { headers: { 'X-Forwarded-For': '203.0.113.2' } }))
+      ];
+
+      console.log(`Statuses: ${codes.join(', ')} (expected: 200, 200, 429)`);
+      console.log(`429 body: ${JSON.stringify(body)}`);
+      console.log(`Retry-After: ${denied.headers.get('retry-after')}, RateLimit: ${denied.headers.get('ratelimit')}`);
+      console.log(`Two forwarded clients: ${forwarded.join(', ')} (expected: 200, 200, 200)`);
+
+      return (
+        codes.join() === '200,200,429' &&
+        body.error === 'Too many requests' &&
+        denied.headers.get('retry-after') === '30' &&
+        denied.headers.get('ratelimit') === '"default";r=0;t=30' &&
+        forwarded.join() === '200,200,200'
+      );
+    }
+  );
+
+  limiter.destroy();
+  proxied.destroy();
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Express-Style Middleware with Declarative Rules
+// ============================================================================
+async function testExpressAdapter() {
+  console.log('\n=== Test 2: Express-Style Middleware with Rules ===');
+
+  const rules = new RateLimitRules({
+    rules: [
+      { name: 'api', route: '/api/**', key: 'header:x-api-key', limit: { maxTokens: 1, refillRate: 1, refillInterval: 60000 } }
+    ]
+  }, { clock });
+  const middleware = expressRateLimit(rules, { headers: 'ietf', clock });
+
+  // Express runs middleware as (req, res, next) on Node's own req/res
+  const passed = await withServer(
+    (req, res) => middleware(req, res, () => res.end('ok')),
+    async baseUrl => {
+      const keyA = { headers: { 'X-API-Key': 'key-a' } };
+      const first = await fetch(`${baseUrl}/api/orders?page=2`, keyA);
+      await first.arrayBuffer();
+      const again = await statuses(`${baseUrl}/api/orders`, 1, keyA);
+      const otherKey = await statuses(`${baseUrl}/api/orders`, 1, { headers: { 'X-API-Key': 'key-b' } });
+      const unlimited = await statuses(`${baseUrl}/health`, 3);
+
+      console.log(`Same key twice: ${first.status}, ${again[0]} (expected: 200, 429)`);
+      console.log(`Another key: ${otherKey[0]}, /health x3: ${unlimited.join(', ')} (expected: 200, 200 200 200)`);
+      console.log(`RateLimit-Policy: ${first.headers.get('ratelimit-policy')} (expected: "api";q=1;w=60)`);
+      console.log(`X-RateLimit-Limit sent: ${first.headers.has('x-ratelimit-limit')} (expected: false)`);
+
+      return (
+        first.status === 200 && again[0] === 429 &&
+        otherKey[0] === 200 && unlimited.join() === '200,200,200' &&
+        first.headers.get('ratelimit-policy') === '"api";q=1;w=60' &&
+        !first.headers.has('x-ratelimit-limit')
+      );
+    }
+  );
+
+  rules.destroy();
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Fastify-Style Hook
+// ============================================================================
+async function testFastifyAdapter() {
+  console.log('\n=== Test 3: Fastify-Style onRequest Hook ===');
+
+  const limiter = twoPerMinute();
+  const hook = fastifyRateLimit(limiter, { clock });
+
+  // A minimal stand-in for Fastify's request/reply over Node's req/res
+  const app = async (req: IncomingMessage, res: ServerResponse) => {
+    let sent = false;
+    const reply: FastifyReply = {
+      code(statusCode) {
+        res.statusCode = statusCode;
+        return reply;
+      },
+      header(name, value) {
+        res.setHeader(name, value);
+        return reply;
+      },
+      send(payload) {
+        sent = true;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(payload));
+        return reply;
+      }
+    };
+
+    const request = { ip: req.socket.remoteAddress!, method: req.method!, url: req.url!, headers: req.headers };
+    await hook(request, reply);
+    if (!sent) reply.send({ ok: true }); // the route handler
+  };
+
+  const passed = await withServer(app, async baseUrl => {
+    const codes = await statuses(`${baseUrl}/items`, 3);
+    const denied = await fetch(`${baseUrl}/items`);
+    const body = (await denied.json()) as { error: string };
+
+    console.log(`Statuses: ${codes.join(', ')} (expected: 200, 200, 429)`);
+    console.log(`429 body error: ${body.error}, X-RateLimit-Remaining: ${denied.headers.get('x-ratelimit-remaining')} (expected: Too many requests, 0)`);
+
+    return codes.join() === '200,200,429' && body.error === 'Too many requests' &&
+      denied.headers.get('x-ratelimit-remaining') === '0';
+  });
+
+  limiter.destroy();
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 4: Fetch-API Handler
+// ============================================================================
+async function testFetchAdapter() {
+  console.log('\n=== Test 4: Fetch-API Handler ===');
+
+  const limiter = twoPerMinute();
+  const handler = fetchRateLimit(limiter, () => new Response('ok', { headers: { 'Cache-Control': 'no-store' } }), {
+    clock,
+    userId: request => request.headers.get('x-user') ?? undefined
+  });
+
+  // Serve the fetch handler from Node's http server, as a runtime would
+  const bridge = async (req: IncomingMessage, res: ServerResponse) => {
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method,
+      headers: req.headers as Record<string, string>
+    });
+    const response = await handler(request);
+    res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  };
+
+  const passed = await withServer(bridge, async baseUrl => {
+    const alice = await statuses(baseUrl, 3, { headers: { 'X-User': 'alice' } });
+    const bob = await fetch(baseUrl, { headers: { 'X-User': 'bob' } });
+    const text = await bob.text();
+
+    // Without trustProxy a made-up X-Forwarded-For doesn't buy a fresh bucket
+    const spoofed: number[] = [];
+    for (const ip of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+      spoofed.push((await fetch(baseUrl, { headers: { 'X-Forwarded-For': ip } })).status);
+    }
+
+    console.log(`alice x3: ${alice.join(', ')} (expected: 200, 200, 429)`);
+    console.log(`bob: ${bob.status} "${text}", Cache-Control kept: ${bob.headers.get('cache-control')}, RateLimit: ${bob.headers.get('ratelimit')}`);
+    console.log(`Anonymous, spoofed X-Forwarded-For x3: ${spoofed.join(', ')} (expected: 200, 200, 429)`);
+
+    return alice.join() === '200,200,429' &&
+      spoofed.join() === '200,200,429' &&
+      bob.status === 200 && text === 'ok' &&
+      bob.headers.get('cache-control') === 'no-store' &&
+      bob.headers.get('ratelimit') === '"default";r=1;t=30';
+  });
+
+  limiter.destroy();
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 5: Express Decides Which Client IP Counts
+// ============================================================================
+async function testExpressClientIp() {
+  console.log('\n=== Test 5: Express Decides Which Client IP Counts ===');
+
+  // Stand-in for Express setting req.ip: the first X-Forwarded-For address with "trust
+  // proxy" on, else the socket address
+  const ipFor = async (trustProxy: boolean) => {
+    const limiter = twoPerMinute();
+    const middleware = expressRateLimit(limiter, { clock });
+    const codes: number[] = [];
+    await withServer(
+      (req, res) => {
+        const forwarded = String(req.headers['x-forwarded-for']);
+        Object.assign(req, { ip: trustProxy ? forwarded : req.socket.remoteAddress });
+        void middleware(req, res, () => res.end('ok'));
+      },
+      async baseUrl => {
+        for (const ip of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+          codes.push(...await statuses(baseUrl, 1, { headers: { 'X-Forwarded-For': ip } }));
+        }
+        return true;
+      }
+    );
+    limiter.destroy();
+    return codes.join(', ');
+  };
+
+  const trusted = await ipFor(true);
+  const untrusted = await ipFor(false);
+
+  console.log(`"trust proxy" on, three forwarded IPs: ${trusted} (expected: 200, 200, 200)`);
+  console.log(`"trust proxy" off, same requests: ${untrusted} (expected: 200, 200, 429)`);
+
+  const passed = trusted === '200, 200, 200' && untrusted === '200, 200, 429';
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║          Rate Limit HTTP Adapter Tests            ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (await testNodeAdapter()) passed++; total++;
+    if (await testExpressAdapter()) passed++; total++;
+    if (await testFastifyAdapter()) passed++; total++;
+    if (await testFetchAdapter()) passed++; total++;
+    if (await testExpressClientIp()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
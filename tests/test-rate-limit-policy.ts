@@ -0,0 +1,212 @@
+/**
+ * Test the tiered rate limit policies
+ * Run with: pnpm test:rate-limit-policy
+ */
+
+import { RateLimitPolicy, type LimitRule } from '../data-structures/rate-limit-policy';
+import { FakeClock } from '../data-structures/clock';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const DAY = 24 * 60 * MINUTE;
+
+// ============================================================================
+// Test 1: All-or-Nothing Across Limits
+// ============================================================================
+async function testAllOrNothing() {
+  console.log('\n=== Test 1: All-or-Nothing Across Limits ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const policy = new RateLimitPolicy({
+    clock,
+    defaultTier: 'free',
+    tiers: {
+      free: [
+        { name: 'burst', scope: 'user', maxTokens: 3, refillRate: 3, refillInterval: SECOND },
+        { name: 'per-minute', scope: 'user', maxTokens: 5, refillRate: 5, refillInterval: MINUTE }
+      ]
+    }
+  });
+  const user = { user: 'alice' };
+
+  for (let i = 0; i < 3; i++) await policy.limit(user);
+  const burstHit = await policy.limit(user);
+  console.log(`4th request in 1s: allowed=${burstHit.allowed}, limitedBy=${burstHit.limitedBy} (expected: false, burst)`);
+  console.log(`per-minute remaining: ${burstHit.limits['per-minute'].remaining} (expected: 2 - not charged for the denied request)`);
+
+  clock.advance(SECOND);
+  await policy.limit(user);
+  await policy.limit(user);
+  const minuteHit = await policy.limit(user);
+  console.log(`6th request: allowed=${minuteHit.allowed}, limitedBy=${minuteHit.limitedBy} (expected: false, per-minute)`);
+  console.log(`burst remaining: ${minuteHit.limits['burst'].remaining} (expected: 1)`);
+
+  const passed =
+    !burstHit.allowed && burstHit.limitedBy === 'burst' &&
+    burstHit.limits['per-minute'].remaining === 2 &&
+    !minuteHit.allowed && minuteHit.limitedBy === 'per-minute' &&
+    minuteHit.limits['burst'].remaining === 1;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  policy.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Per-User and Per-Org Limits
+// ============================================================================
+async function testSharedOrgLimit() {
+  console.log('\n=== Test 2: Per-User and Per-Org Limits ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const policy = new RateLimitPolicy({
+    clock,
+    defaultTier: 'team',
+    tiers: {
+      team: [
+        { name: 'user-daily', scope: 'user', maxTokens: 10, refillRate: 10, refillInterval: DAY },
+        { name: 'org-daily', scope: 'org', maxTokens: 3, refillRate: 3, refillInterval: DAY }
+      ]
+    }
+  });
+
+  await policy.limit({ user: 'alice', org: 'acme' }, 2);
+  await policy.limit({ user: 'bob', org: 'acme' });
+  const bob = await policy.limit({ user: 'bob', org: 'acme' });
+  const carol = await policy.limit({ user: 'carol', org: 'globex' });
+
+  // The org quota refills over a day; cleanup must not hand it back early
+  clock.advance(10 * MINUTE);
+  const later = await policy.limit({ user: 'bob', org: 'acme' });
+
+  console.log(`bob after acme spent 3: allowed=${bob.allowed}, limitedBy=${bob.limitedBy} (expected: false, org-daily)`);
+  console.log(`carol at another org: allowed=${carol.allowed} (expected: true)`);
+  console.log(`bob 10 minutes later: allowed=${later.allowed}, retryAfter=${later.retryAfter}s (expected: false, 28200)`);
+
+  const passed =
+    !bob.allowed && bob.limitedBy === 'org-daily' &&
+    carol.allowed &&
+    !later.allowed && later.retryAfter === 28200;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  policy.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Tiers and Validation
+// ============================================================================
+async function testTiers() {
+  console.log('\n=== Test 3: Tiers and Validation ===');
+
+  const plans = new Map([['acme', 'pro'], ['initech', 'legacy']]);
+  const rule = (maxTokens: number): LimitRule =>
+    ({ name: 'per-minute', scope: 'org', maxTokens, refillRate: maxTokens, refillInterval: MINUTE });
+
+  const policy = new RateLimitPolicy({
+    clock: new FakeClock(),
+    defaultTier: 'free',
+    tierOf: subject => plans.get(subject.org),
+    tiers: { free: [rule(1)], pro: [rule(100)] }
+  });
+
+  const pro = await policy.limit({ org: 'acme' });
+  const free = await policy.limit({ org: 'tiny' });
+
+  const errors: string[] = [];
+  for (const attempt of [
+    () => policy.limit({ org: 'initech' }),
+    () => policy.limit({ user: 'no-org' }),
+    async () => new RateLimitPolicy({ defaultTier: 'x', tiers: { free: [rule(1)] } })
+  ]) {
+    try {
+      await attempt();
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  console.log(`acme: tier=${pro.tier}, remaining=${pro.remaining} (expected: pro, 99)`);
+  console.log(`tiny: tier=${free.tier}, remaining=${free.remaining} (expected: free, 0)`);
+  errors.forEach(message => console.log(`Error: ${message}`));
+
+  const passed =
+    pro.tier === 'pro' && pro.remaining === 99 &&
+    free.tier === 'free' && free.remaining === 0 &&
+    errors.length === 3;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  policy.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 4: Several Limits Denying at Once
+// ============================================================================
+async function testLongestWaitWins() {
+  console.log('\n=== Test 4: Several Limits Denying at Once ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const policy = new RateLimitPolicy({
+    clock,
+    defaultTier: 'free',
+    tiers: {
+      free: [
+        { name: 'burst', scope: 'user', maxTokens: 2, refillRate: 2, refillInterval: SECOND },
+        { name: 'hourly', scope: 'user', maxTokens: 2, refillRate: 2, refillInterval: 60 * MINUTE }
+      ]
+    }
+  });
+
+  await policy.limit({ user: 'alice' }, 2);
+  const denied = await policy.limit({ user: 'alice' });
+  const status = policy.getStatus({ user: 'alice' });
+
+  console.log(`Denied by: ${denied.limitedBy}, retryAfter=${denied.retryAfter}s (expected: hourly, 1800)`);
+  console.log(`Status: allowed=${status.allowed}, limitedBy=${status.limitedBy} (expected: false, hourly)`);
+
+  const passed =
+    denied.limitedBy === 'hourly' && denied.retryAfter === 1800 &&
+    !status.allowed && status.limitedBy === 'hourly';
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  policy.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║           Rate Limit Policy (Tier) Tests          ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (await testAllOrNothing()) passed++; total++;
+    if (await testSharedOrgLimit()) passed++; total++;
+    if (await testTiers()) passed++; total++;
+    if (await testLongestWaitWins()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
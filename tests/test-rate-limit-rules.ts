@@ -0,0 +1,302 @@
+/**
+ * Test the declarative rate limit rules
+ * Run with: pnpm test:rate-limit-rules
+ */
+
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RateLimitRules, createLimiter, type RateLimitAlgorithm } from '../data-structures/rate-limit-rules';
+import { createRateLimitMiddleware, type RateLimitRequest } from '../data-structures/rate-limiter';
+import { FakeClock } from '../data-structures/clock';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const perMinute = (maxTokens: number) => ({ maxTokens, refillRate: maxTokens, refillInterval: 60000 });
+
+const RULES = {
+  rules: [
+    { name: 'login', route: '/auth/login', methods: ['post'], key: 'ip', limit: perMinute(2) },
+    { name: 'api-key', route: '/api/**', key: 'header:X-API-Key', algorithm: 'gcra', limit: perMinute(100) },
+    { name: 'user-reports', route: '/users/*/reports', key: 'user', limit: perMinute(5) },
+    { name: 'fallback', route: '/**', key: 'ip', algorithm: 'fixed-window', limit: perMinute(50) }
+  ]
+};
+
+/** Run a request through the middleware; returns the status sent (200 if next() was called) */
+async function send(middleware: ReturnType<typeof createRateLimitMiddleware>, req: RateLimitRequest): Promise<number> {
+  let status = 200;
+  const res = {
+    status(code: number) {
+      status = code;
+      return res;
+    },
+    json() {},
+    setHeader() {}
+  };
+  await middleware(req, res, () => {});
+  return status;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return condition();
+}
+
+// ============================================================================
+// Test 1: Matching Routes, Methods and Keys
+// ============================================================================
+function testMatching() {
+  console.log('\n=== Test 1: Matching Routes, Methods and Keys ===');
+
+  const rules = new RateLimitRules(RULES, { clock: new FakeClock() });
+  const ruleFor = (req: Partial<RateLimitRequest>) => rules.match({ ip: '10.0.0.1', ...req })?.rule;
+
+  const cases: Array<[Partial<RateLimitRequest>, string | undefined]> = [
+    [{ method: 'POST', path: '/auth/login?next=/home' }, 'login'],
+    [{ method: 'GET', path: '/auth/login' }, 'fallback'],
+    [{ path: '/api/v1/orders', headers: { 'x-api-key': 'k1' } }, 'api-key'],
+    [{ path: '/api/v1/orders' }, 'fallback'], // no API key: falls through
+    [{ path: '/users/42/reports', user: { id: 'u42' } }, 'user-reports'],
+    [{ path: '/users/42/extra/reports', user: { id: 'u42' } }, 'fallback'], // '*' is one segment
+    [{ path: '/users/42/reports' }, 'fallback'] // anonymous: falls through to the IP rule
+  ];
+
+  let passed = true;
+  for (const [req, expected] of cases) {
+    const actual = ruleFor(req);
+    console.log(`${req.method ?? 'GET'} ${req.path} -> ${actual} (expected: ${expected})`);
+    passed = passed && actual === expected;
+  }
+
+  const apiKey = rules.match({ ip: '10.0.0.1', path: '/api/x', headers: { 'x-api-key': 'k1' } });
+  console.log(`Bucket key for the API key rule: ${apiKey?.key} (expected: k1)`);
+  passed = passed && apiKey?.key === 'k1';
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  rules.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Middleware Evaluates the Rules
+// ============================================================================
+async function testMiddleware() {
+  console.log('\n=== Test 2: Middleware Evaluates the Rules ===');
+
+  const rules = new RateLimitRules(RULES, { clock: new FakeClock(Date.UTC(2024, 0, 1)) });
+  const middleware = createRateLimitMiddleware(rules);
+  const login = { ip: '10.0.0.1', method: 'POST', path: '/auth/login' };
+
+  const statuses = [await send(middleware, login), await send(middleware, login), await send(middleware, login)];
+  const otherIp = await send(middleware, { ...login, ip: '10.0.0.2' });
+  const otherRoute = await send(middleware, { ...login, path: '/home' });
+
+  console.log(`Three logins: ${statuses.join(', ')} (expected: 200, 200, 429)`);
+  console.log(`Login from another IP: ${otherIp} (expected: 200)`);
+  console.log(`Another route from the limited IP: ${otherRoute} (expected: 200)`);
+
+  const passed = statuses.join() === '200,200,429' && otherIp === 200 && otherRoute === 200;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+  rules.destroy();
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Validation Errors
+// ============================================================================
+async function testValidation() {
+  console.log('\n=== Test 3: Validation Errors ===');
+
+  let message = '';
+  try {
+    new RateLimitRules({
+      rules: [
+        { name: 'a', route: 'no-slash', key: 'ip', limit: perMinute(1) },
+        { name: 'a', route: '/x', key: 'cookie', algorithm: 'magic', limit: { maxTokens: 0, refillRate: 1 } }
+      ]
+    });
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  console.log(message);
+
+  const dir = await mkdtemp(join(tmpdir(), 'rate-limit-rules-'));
+  let parseError = '';
+  try {
+    await writeFile(join(dir, 'rules.json'), '{ "rules": [ ');
+    await RateLimitRules.fromFile(join(dir, 'rules.json'));
+  } catch (error) {
+    parseError = (error as Error).message;
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+  console.log(parseError);
+
+  const expected = [
+    'rules[0].route',
+    'rules[1].name "a" is used by an earlier rule',
+    'rules[1].key',
+    'rules[1].algorithm',
+    'rules[1].limit.maxTokens',
+    'rules[1].limit.refillInterval'
+  ];
+  const passed =
+    expected.every(text => message.includes(text)) &&
+    parseError.startsWith('Could not parse rate limit rules');
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 4: Hot Reload
+// ============================================================================
+async function testHotReload() {
+  console.log('\n=== Test 4: Hot Reload ===');
+
+  const dir = await mkdtemp(join(tmpdir(), 'rate-limit-rules-'));
+  const path = join(dir, 'rules.json');
+  const logged: string[] = [];
+  const originalError = console.error;
+  console.error = (...args: unknown[]) => logged.push(args.join(' '));
+
+  try {
+    await writeFile(path, JSON.stringify(RULES));
+    const rules = await RateLimitRules.fromFile(path);
+    const loginLimiter = rules.match({ ip: '1', method: 'POST', path: '/auth/login' })?.limiter;
+    rules.watch(20);
+
+    // Raise the API limit; the login rule is unchanged and keeps its limiter
+    const edited = structuredClone(RULES);
+    edited.rules[1].limit = perMinute(1000);
+    await writeFile(path, JSON.stringify(edited, null, 2));
+    const reloaded = await waitFor(() => rules.rules[1].limit.maxTokens === 1000);
+    const keptLimiter = rules.match({ ip: '1', method: 'POST', path: '/auth/login' })?.limiter === loginLimiter;
+
+    // A broken edit is logged and the last good rules stay in force
+    await writeFile(path, '{ "rules": "oops" }');
+    const reported = await waitFor(() => logged.length > 0);
+    await new Promise(resolve => setTimeout(resolve, 200)); // several more polls
+    const inForce = rules.rules.length;
+
+    console.log(`Edit picked up: ${reloaded} (expected: true)`);
+    console.log(`Unchanged rule kept its counters: ${keptLimiter} (expected: true)`);
+    console.log(`Broken edit reported: ${reported}, rules still in force: ${inForce} (expected: true, 4)`);
+    console.log(`Times reported: ${logged.length} (expected: 1)`);
+    console.log(`Logged: ${logged[0]}`);
+
+    rules.destroy();
+
+    const passed = reloaded && keptLimiter && reported && inForce === 4 && logged.length === 1;
+    console.log(passed ? '✓ PASSED' : '✗ FAILED');
+    return passed;
+  } finally {
+    console.error = originalError;
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// ============================================================================
+// Test 5: Every Algorithm Honors the Same Limit
+// ============================================================================
+async function testAlgorithms() {
+  console.log('\n=== Test 5: Every Algorithm Honors the Same Limit ===');
+
+  const algorithms: RateLimitAlgorithm[] = ['token-bucket', 'sliding-window', 'sliding-window-counter', 'fixed-window', 'gcra'];
+  let passed = true;
+
+  for (const algorithm of algorithms) {
+    const limiter = createLimiter(algorithm, perMinute(3), new FakeClock(Date.UTC(2024, 0, 1)));
+    let allowed = 0;
+    for (let i = 0; i < 5; i++) {
+      if ((await limiter.limit('key')).allowed) allowed++;
+    }
+    limiter.destroy();
+
+    console.log(`${algorithm}: ${allowed}/5 allowed (expected: 3)`);
+    passed = passed && allowed === 3;
+  }
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 6: Queued Requests Survive a Rule Change
+// ============================================================================
+async function testQueuedRequestsDrain() {
+  console.log('\n=== Test 6: Queued Requests Survive a Rule Change ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const queueRule = (maxTokens: number) => ({
+    rules: [{ name: 'queue', route: '/**', key: 'ip', algorithm: 'leaky-bucket', limit: perMinute(maxTokens) }]
+  });
+  const rules = new RateLimitRules(queueRule(3), { clock });
+  const limiter = rules.match({ ip: '1' })!.limiter;
+
+  // Three requests: the first runs at once, the others wait in the queue
+  const queued = [1, 2, 3].map(() =>
+    limiter.limit('1').then(result => (result.allowed ? 'ran' : 'denied'), (error: Error) => error.message)
+  );
+  rules.update(queueRule(10));
+  const replaced = rules.match({ ip: '1' })!.limiter !== limiter;
+
+  clock.advance(60000);
+  const outcomes = await Promise.all(queued);
+  const timersLeft = clock.pendingTimers;
+  rules.destroy();
+
+  console.log(`Limiter replaced: ${replaced} (expected: true)`);
+  console.log(`Queued requests: ${outcomes.join(', ')} (expected: ran, ran, ran)`);
+  console.log(`Old limiter's timers after draining: ${timersLeft} (expected: 1, the new limiter's cleanup)`);
+
+  const passed = replaced && outcomes.every(outcome => outcome === 'ran') && timersLeft === 1;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║         Declarative Rate Limit Rules Tests        ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (testMatching()) passed++; total++;
+    if (await testMiddleware()) passed++; total++;
+    if (await testValidation()) passed++; total++;
+    if (await testHotReload()) passed++; total++;
+    if (await testAlgorithms()) passed++; total++;
+    if (await testQueuedRequestsDrain()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -4,12 +4,18 @@
  * Or compile first: tsc test-rate-limiter.ts && node test-rate-limiter.js
  */
 
-import { RateLimiter, SlidingWindowRateLimiter } from '../data-structures/rate-limiter';
-
-// ============================================================================
-// Helper function to wait
-// ============================================================================
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+import {
+  RateLimiter,
+  SlidingWindowRateLimiter,
+  SlidingWindowCounterRateLimiter,
+  FixedWindowRateLimiter,
+  LeakyBucketRateLimiter,
+  GCRARateLimiter,
+  createRateLimitMiddleware,
+  type Limiter,
+  type RateLimitHeaderStyle
+} from '../data-structures/rate-limiter';
+import { FakeClock } from '../data-structures/clock';
 
 // ============================================================================
 // Test 1: Basic Token Bucket
@@ -17,11 +23,12 @@ const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 async function testBasicRateLimiter() {
   console.log('\n=== Test 1: Basic Token Bucket ===');
 
+  const clock = new FakeClock(Date.now());
   const limiter = new RateLimiter({
     maxTokens: 5,        // 5 requests allowed
     refillRate: 1,       // 1 token per interval
     refillInterval: 1000 // Every 1 second
-  });
+  }, clock);
 
   const userId = 'user123';
 
@@ -42,8 +49,8 @@ async function testBasicRateLimiter() {
   }
 
   // Wait for refill
-  console.log('\nWaiting 2 seconds for token refill...');
-  await sleep(2000);
+  console.log('\nAdvancing the clock 2 seconds for token refill...');
+  clock.advance(2000);
 
   // Should have 2 more tokens now
   console.log('After waiting:');
@@ -90,11 +97,12 @@ async function testMultipleUsers() {
 async function testBurstTraffic() {
   console.log('\n=== Test 3: Burst Traffic (Allows Bursts, Limits Long-term) ===');
 
+  const clock = new FakeClock(Date.now());
   const limiter = new RateLimiter({
     maxTokens: 10,       // Allow 10 request burst
     refillRate: 2,       // But only 2 per second sustained
     refillInterval: 1000
-  });
+  }, clock);
 
   const userId = 'burst-user';
 
@@ -119,8 +127,8 @@ async function testBurstTraffic() {
   console.log(`  ✓ Allowed: ${allowed}, ✗ Denied: ${denied}`);
 
   // Wait 2 seconds (should get 4 more tokens: 2 per second * 2 seconds)
-  console.log('\nWaiting 2 seconds...');
-  await sleep(2000);
+  console.log('\nAdvancing the clock 2 seconds...');
+  clock.advance(2000);
 
   console.log('Making 5 requests after wait:');
   allowed = 0; denied = 0;
@@ -188,6 +196,382 @@ async function testPerformance() {
   limiter.destroy();
 }
 
+// ============================================================================
+// Test 6: Requests Costing Several Tokens
+// ============================================================================
+async function testMultiTokenRequests() {
+  console.log('\n=== Test 6: Requests Costing Several Tokens ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const limiter = new RateLimiter({ maxTokens: 10, refillRate: 1, refillInterval: 1000 }, clock);
+
+  const first = await limiter.limit('batch', 7);
+  const second = await limiter.limit('batch', 5);  // only 3 left: denied, nothing consumed
+  const third = await limiter.limit('batch', 3);
+
+  console.log(`Cost 7: allowed=${first.allowed}, remaining=${first.remaining} (expected: true, 3)`);
+  console.log(`Cost 5: allowed=${second.allowed}, remaining=${second.remaining}, retryAfter=${second.retryAfter}s (expected: false, 3, 2)`);
+  console.log(`Cost 3: allowed=${third.allowed}, remaining=${third.remaining} (expected: true, 0)`);
+
+  let oversizedRejected = false;
+  try {
+    await limiter.limit('batch', 11);
+  } catch {
+    oversizedRejected = true;
+  }
+  console.log(`Cost above bucket size throws: ${oversizedRejected} (expected: true)`);
+
+  const passed =
+    first.allowed && first.remaining === 3 &&
+    !second.allowed && second.remaining === 3 && second.retryAfter === 2 &&
+    third.allowed && third.remaining === 0 &&
+    oversizedRejected;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  limiter.destroy();
+  return passed;
+}
+
+// ============================================================================
+// Test 7: Fractional Refill and Accurate Retry Timing
+// ============================================================================
+async function testFractionalRefill() {
+  console.log('\n=== Test 7: Fractional Refill (1 token per second) ===');
+
+  const start = Date.UTC(2024, 0, 1);
+  const clock = new FakeClock(start);
+  const limiter = new RateLimiter({ maxTokens: 2, refillRate: 1, refillInterval: 1000 }, clock);
+
+  await limiter.limit('user', 2);
+
+  // Two half-intervals add up to a whole token: partial progress is kept
+  clock.advance(500);
+  const half = await limiter.limit('user');
+  clock.advance(500);
+  const whole = await limiter.limit('user');
+
+  console.log(`After 500ms: allowed=${half.allowed} (expected: false)`);
+  console.log(`  → resetAt +${half.resetAt.getTime() - start}ms (expected: +1000ms)`);
+  console.log(`After 1000ms: allowed=${whole.allowed} (expected: true)`);
+  console.log(`  → bucket full again at +${whole.resetAt.getTime() - start}ms (expected: +3000ms)`);
+
+  clock.advance(250);
+  const status = limiter.getStatus('user');
+  console.log(`getStatus after 250ms more: remaining=${status.remaining}, resetAt +${status.resetAt.getTime() - start}ms (expected: 0, +3000ms)`);
+
+  const passed =
+    !half.allowed &&
+    half.resetAt.getTime() === start + 1000 &&
+    whole.allowed &&
+    whole.resetAt.getTime() === start + 3000 &&
+    status.remaining === 0 &&
+    status.resetAt.getTime() === start + 3000;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  limiter.destroy();
+  return passed;
+}
+
+// ============================================================================
+// Test 8: Sliding Window Counter
+// ============================================================================
+async function testSlidingWindowCounter() {
+  console.log('\n=== Test 8: Sliding Window Counter (10 per minute, O(1) memory) ===');
+
+  const start = Date.UTC(2024, 0, 1);  // Aligned to a minute boundary
+  const clock = new FakeClock(start);
+  const limiter = new SlidingWindowCounterRateLimiter(60000, 10, clock);
+
+  let allowed = 0;
+  for (let i = 0; i < 12; i++) {
+    if ((await limiter.limit('user')).allowed) allowed++;
+  }
+  const firstWindow = allowed;
+  console.log(`Window 1: ${firstWindow}/12 allowed (expected: 10)`);
+
+  // 15s into the next window the previous 10 still weigh 10 * 0.75 = 7.5
+  clock.advance(75000);
+  allowed = 0;
+  let denied;
+  for (let i = 0; i < 5; i++) {
+    const result = await limiter.limit('user');
+    if (result.allowed) allowed++;
+    else denied = result;
+  }
+  console.log(`15s into window 2: ${allowed}/5 allowed (expected: 2)`);
+
+  // 7.5 + 2 + 1 > 10 until the previous weight drops to 0.7 (at 18s)
+  const waitMs = denied!.resetAt.getTime() - clock.now();
+  console.log(`Denied request can retry in ${waitMs}ms, retryAfter=${denied!.retryAfter}s (expected: 3000ms, 3)`);
+  clock.advance(waitMs);
+  const retried = await limiter.limit('user');
+  console.log(`Retry at the reported time: allowed=${retried.allowed} (expected: true)`);
+
+  // Idle keys are dropped once both windows are empty
+  await limiter.limit('idle');
+  const trackedBefore = limiter.trackedKeys;
+  clock.advance(180000);
+  console.log(`Tracked keys: ${trackedBefore} -> ${limiter.trackedKeys} (expected: 2 -> 0)`);
+
+  const passed =
+    firstWindow === 10 &&
+    allowed === 2 &&
+    waitMs === 3000 &&
+    denied!.retryAfter === 3 &&
+    retried.allowed &&
+    trackedBefore === 2 &&
+    limiter.trackedKeys === 0;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  limiter.destroy();
+  return passed;
+}
+
+// ============================================================================
+// Test 9: Fixed Window
+// ============================================================================
+async function testFixedWindow() {
+  console.log('\n=== Test 9: Fixed Window (5 per second) ===');
+
+  const start = Date.UTC(2024, 0, 1);
+  const clock = new FakeClock(start + 900);  // 100ms before a boundary
+  const limiter = new FixedWindowRateLimiter(1000, 5, clock);
+
+  let beforeBoundary = 0;
+  for (let i = 0; i < 6; i++) {
+    if ((await limiter.limit('user')).allowed) beforeBoundary++;
+  }
+  const denied = await limiter.limit('user');
+
+  clock.advance(100);  // New window: the counter resets
+  let afterBoundary = 0;
+  for (let i = 0; i < 6; i++) {
+    if ((await limiter.limit('user')).allowed) afterBoundary++;
+  }
+
+  console.log(`Before boundary: ${beforeBoundary}, after: ${afterBoundary} (expected: 5, 5 - the boundary burst)`);
+  console.log(`Denied resetAt +${denied.resetAt.getTime() - start}ms, retryAfter=${denied.retryAfter}s (expected: +1000ms, 1)`);
+
+  const passed =
+    beforeBoundary === 5 &&
+    afterBoundary === 5 &&
+    denied.resetAt.getTime() === start + 1000 &&
+    denied.retryAfter === 1;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  limiter.destroy();
+  return passed;
+}
+
+// ============================================================================
+// Test 10: Leaky Bucket Queue
+// ============================================================================
+async function testLeakyBucket() {
+  console.log('\n=== Test 10: Leaky Bucket (queue of 3, one request per 100ms) ===');
+
+  const clock = new FakeClock(0);
+  const limiter = new LeakyBucketRateLimiter(3, 100, clock);
+
+  const released: number[] = [];
+  const queued = [0, 1, 2].map(() =>
+    limiter.limit('api').then(result => {
+      released.push(clock.now());
+      return result;
+    })
+  );
+  const overflow = await limiter.limit('api');
+
+  // Let released requests settle before moving time on
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+  await flush();
+  clock.advance(100);
+  await flush();
+  clock.advance(100);
+  const results = await Promise.all(queued);
+
+  console.log(`Released at: ${released.join(', ')}ms (expected: 0, 100, 200)`);
+  console.log(`4th request: allowed=${overflow.allowed}, resetAt ${overflow.resetAt.getTime()}ms (expected: false, 100ms)`);
+
+  // destroy() rejects requests still waiting in the queue
+  const waiting = limiter.limit('api');
+  limiter.destroy();
+  let rejected = false;
+  try {
+    await waiting;
+  } catch {
+    rejected = true;
+  }
+  console.log(`Queued request rejected on destroy: ${rejected} (expected: true)`);
+
+  const passed =
+    released.join(',') === '0,100,200' &&
+    results.every(r => r.allowed) &&
+    !overflow.allowed &&
+    overflow.resetAt.getTime() === 100 &&
+    rejected;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 11: GCRA
+// ============================================================================
+async function testGCRA() {
+  console.log('\n=== Test 11: GCRA (10 per second, bursts of 10) ===');
+
+  const clock = new FakeClock(0);
+  const limiter = new GCRARateLimiter(10, 1000, clock);
+
+  let burst = 0;
+  for (let i = 0; i < 11; i++) {
+    if ((await limiter.limit('user')).allowed) burst++;
+  }
+  const denied = await limiter.limit('user');
+
+  // One emission interval (100ms) later exactly one more request fits
+  clock.advance(100);
+  const next = await limiter.limit('user');
+  const after = await limiter.limit('user');
+
+  clock.advance(1000);
+  const status = limiter.getStatus('user');
+
+  console.log(`Burst: ${burst}/11 allowed (expected: 10)`);
+  console.log(`Denied resetAt ${denied.resetAt.getTime()}ms (expected: 100ms)`);
+  console.log(`After 100ms: ${next.allowed}, then ${after.allowed} (expected: true, false)`);
+  console.log(`After idling 1s: remaining=${status.remaining} (expected: 10)`);
+
+  const passed =
+    burst === 10 &&
+    denied.resetAt.getTime() === 100 &&
+    next.allowed &&
+    !after.allowed &&
+    status.remaining === 10;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  limiter.destroy();
+  return passed;
+}
+
+// ============================================================================
+// Test 12: Every Algorithm Behind the Limiter Interface
+// ============================================================================
+async function testLimiterInterface() {
+  console.log('\n=== Test 12: Shared Limiter Interface ===');
+
+  const clock = new FakeClock(Date.UTC(2024, 0, 1));
+  const limiters: [string, Limiter][] = [
+    ['token bucket', new RateLimiter({ maxTokens: 3, refillRate: 1, refillInterval: 60000 }, clock)],
+    ['sliding log', new SlidingWindowRateLimiter(60000, 3, clock)],
+    ['sliding counter', new SlidingWindowCounterRateLimiter(60000, 3, clock)],
+    ['fixed window', new FixedWindowRateLimiter(60000, 3, clock)],
+    ['leaky bucket', new LeakyBucketRateLimiter(3, 60000, clock)],
+    ['gcra', new GCRARateLimiter(3, 60000, clock)]
+  ];
+
+  let passed = true;
+  for (const [name, limiter] of limiters) {
+    const first = await limiter.limit('k', 2);
+    const status = await limiter.getStatus('k');
+    const over = await limiter.limit('k', 2);
+    await limiter.reset('k');
+    const afterReset = await limiter.getStatus('k');
+    limiter.destroy();
+
+    const ok =
+      first.allowed &&
+      status.remaining === 1 &&
+      !over.allowed &&
+      over.retryAfter !== undefined && over.retryAfter > 0 &&
+      afterReset.remaining === 3;
+
+    console.log(`${name}: cost 2 -> ${status.remaining} left, cost 2 denied, reset -> ${afterReset.remaining} ${ok ? '✓' : '✗'}`);
+    passed = passed && ok;
+  }
+
+  console.log('(expected: every limiter 1 left, denied, 3 after reset)');
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 13: Rate Limit Response Headers
+// ============================================================================
+async function testResponseHeaders() {
+  console.log('\n=== Test 13: Rate Limit Response Headers ===');
+
+  const start = Date.UTC(2024, 0, 1);
+
+  // Send `count` requests from one client; headers and status of the last
+  const run = async (style: RateLimitHeaderStyle, count: number) => {
+    const clock = new FakeClock(start);
+    const limiter = new RateLimiter({ maxTokens: 2, refillRate: 2, refillInterval: 60000 }, clock);
+    const middleware = createRateLimitMiddleware(limiter, { headers: style, clock });
+
+    let headers: Record<string, string> = {};
+    let status = 200;
+    for (let i = 0; i < count; i++) {
+      headers = {};
+      status = 200;
+      const res = {
+        status(code: number) {
+          status = code;
+          return res;
+        },
+        json() {},
+        setHeader(name: string, value: string) {
+          headers[name] = value;
+        }
+      };
+      await middleware({ ip: '10.0.0.1' }, res, () => {});
+    }
+
+    limiter.destroy();
+    return { headers, status };
+  };
+
+  const allowed = await run('both', 1);
+  const denied = await run('both', 3);
+  const legacy = await run('legacy', 3);
+  const ietf = await run('ietf', 3);
+  const none = await run('none', 3);
+
+  for (const [name, value] of Object.entries(denied.headers)) {
+    console.log(`  ${name}: ${value}`);
+  }
+  console.log('(expected on the 429: limit 2, remaining 0, reset in 30s, "default";q=2;w=60, Retry-After 30)');
+  console.log(`Allowed: ${allowed.headers['RateLimit']}, X-RateLimit-Remaining ${allowed.headers['X-RateLimit-Remaining']} (expected: "default";r=1;t=30, 1)`);
+  console.log(`Header sets - legacy: ${Object.keys(legacy.headers).join(', ')}`);
+  console.log(`Header sets - ietf: ${Object.keys(ietf.headers).join(', ')}`);
+  console.log(`Header sets - none: ${Object.keys(none.headers).length} headers (expected: 0)`);
+
+  const passed =
+    denied.status === 429 &&
+    denied.headers['X-RateLimit-Limit'] === '2' &&
+    denied.headers['X-RateLimit-Remaining'] === '0' &&
+    denied.headers['X-RateLimit-Reset'] === String(start / 1000 + 30) &&
+    denied.headers['RateLimit-Policy'] === '"default";q=2;w=60' &&
+    denied.headers['RateLimit'] === '"default";r=0;t=30' &&
+    denied.headers['Retry-After'] === '30' &&
+    allowed.headers['RateLimit'] === '"default";r=1;t=30' &&
+    allowed.headers['Retry-After'] === undefined &&
+    legacy.headers['RateLimit'] === undefined && legacy.headers['Retry-After'] === '30' &&
+    ietf.headers['X-RateLimit-Limit'] === undefined && ietf.headers['RateLimit'] !== undefined &&
+    none.status === 429 && Object.keys(none.headers).length === 0;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
 // ============================================================================
 // Run All Tests
 // ============================================================================
@@ -202,6 +586,14 @@ async function runAllTests() {
     await testBurstTraffic();
     await testSlidingWindow();
     await testPerformance();
+    await testMultiTokenRequests();
+    await testFractionalRefill();
+    await testSlidingWindowCounter();
+    await testFixedWindow();
+    await testLeakyBucket();
+    await testGCRA();
+    await testLimiterInterface();
+    await testResponseHeaders();
 
     console.log('\n✓ All tests completed!\n');
   } catch (error) {
@@ -0,0 +1,231 @@
+/**
+ * Test the Sharded Cache implementation
+ * Run with: pnpm test:sharded-cache
+ *
+ * The cross-worker test re-runs this file inside worker threads.
+ */
+
+import { Worker, isMainThread, parentPort, workerData, type MessagePort } from 'worker_threads';
+import { ShardedCache, ShardedCacheOwner, ShardedCacheClient } from '../data-structures/sharded-cache';
+
+// ============================================================================
+// Test 1: Keys Spread Across Shards
+// ============================================================================
+function testDistribution() {
+  console.log('\n=== Test 1: Keys Spread Across Shards ===');
+
+  const cache = new ShardedCache<string, number>(8000, { shards: 8 });
+
+  for (let i = 0; i < 4000; i++) {
+    cache.put(`key-${i}`, i);
+  }
+
+  const sizes = cache.shardStats().map(s => s.size);
+  const min = Math.min(...sizes);
+  const max = Math.max(...sizes);
+
+  console.log(`Shard sizes: ${sizes.join(', ')}`);
+  console.log(`Total size: ${cache.size} (expected: 4000)`);
+  console.log(`Spread: min ${min}, max ${max} (expected: each within 30% of 500)`);
+
+  const passed = cache.size === 4000 && min > 350 && max < 650 && cache.get('key-42') === 42;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Per-Shard Eviction and Statistics
+// ============================================================================
+function testShardEviction() {
+  console.log('\n=== Test 2: Per-Shard Eviction and Statistics ===');
+
+  // Route by number so the test controls placement: even -> 0, odd -> 1
+  const cache = new ShardedCache<number, string>(4, { shards: 2, hash: key => key });
+
+  cache.put(0, 'a');
+  cache.put(2, 'b');
+  cache.put(1, 'c');
+  cache.get(0);
+  cache.put(4, 'd');  // shard 0 full: evicts 2 (its LRU), shard 1 untouched
+  cache.get(99);      // miss on shard 1
+
+  const stats = cache.shardStats();
+  console.log(`Has 2: ${cache.has(2)} (expected: false), has 1: ${cache.has(1)} (expected: true)`);
+  console.log(`Shard 0: evictions=${stats[0].evictions} hits=${stats[0].hits}`);
+  console.log(`Shard 1: evictions=${stats[1].evictions} misses=${stats[1].misses}`);
+
+  const total = cache.stats();
+  console.log(`Total hit ratio: ${total.hitRatio} (expected: 0.5)`);
+
+  const passed =
+    !cache.has(2) &&
+    cache.has(1) &&
+    stats[0].evictions === 1 &&
+    stats[0].hits === 1 &&
+    stats[1].evictions === 0 &&
+    stats[1].misses === 1 &&
+    total.hitRatio === 0.5;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Shared Across Worker Threads
+// ============================================================================
+async function testAcrossWorkers() {
+  console.log('\n=== Test 3: One Cache Shared by Worker Threads ===');
+
+  const owner = new ShardedCacheOwner(new ShardedCache<string, number>(1000, { shards: 4 }));
+
+  // Each worker writes its own keys, then reads the other worker's keys
+  const runWorker = (name: string, other: string) => {
+    const port = owner.connect();
+    const worker = new Worker(
+      `require('ts-node/register'); require(${JSON.stringify(__filename)});`,
+      {
+        eval: true,
+        workerData: { port, name, other },
+        transferList: [port],
+        env: { ...process.env, TS_NODE_TRANSPILE_ONLY: 'true' }
+      }
+    );
+
+    return new Promise<number>((resolve, reject) => {
+      worker.once('message', resolve);
+      worker.once('error', reject);
+    });
+  };
+
+  const seen = await Promise.all([runWorker('w1', 'w2'), runWorker('w2', 'w1')]);
+  const size = owner.cache.size;
+  owner.close();
+
+  console.log(`Owner size: ${size} (expected: 100)`);
+  console.log(`Keys each worker saw from the other: ${seen.join(', ')} (expected: 50, 50)`);
+
+  const passed = size === 100 && seen.every(count => count === 50);
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+/**
+ * Worker side of Test 3
+ */
+async function workerMain() {
+  const { port, name, other } = workerData as { port: MessagePort; name: string; other: string };
+  const client = new ShardedCacheClient<string, number>(port);
+
+  for (let i = 0; i < 50; i++) {
+    await client.put(`${name}:${i}`, i);
+  }
+
+  // Wait until the other worker's writes are visible
+  let seen = 0;
+  for (let attempt = 0; attempt < 200 && seen < 50; attempt++) {
+    const found = await Promise.all(
+      Array.from({ length: 50 }, (_, i) => client.has(`${other}:${i}`))
+    );
+    seen = found.filter(Boolean).length;
+    if (seen < 50) await new Promise(resolve => setTimeout(resolve, 10));
+  }
+
+  client.close();
+  parentPort?.postMessage(seen);
+}
+
+// ============================================================================
+// Test 4: Requests Fail When the Owner Closes
+// ============================================================================
+async function testOwnerClosed() {
+  console.log('\n=== Test 4: Requests Fail When the Owner Closes ===');
+
+  const owner = new ShardedCacheOwner(new ShardedCache<string, number>(100));
+  const client = new ShardedCacheClient<string, number>(owner.connect());
+
+  // Sent, but the owner closes before it can answer
+  const inFlight = client.get('a').then(() => 'resolved', (error: Error) => error.message);
+  owner.close();
+  const pending = await inFlight;
+  const afterwards = await client.get('a').then(() => 'resolved', (error: Error) => error.message);
+
+  console.log(`In-flight request: ${pending} (expected: Cache owner closed the connection)`);
+  console.log(`Request after close: ${afterwards} (expected: Client closed)`);
+
+  const passed = pending === 'Cache owner closed the connection' && afterwards === 'Client closed';
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Test 5: Custom Hashes May Be Negative
+// ============================================================================
+function testNegativeHash() {
+  console.log('\n=== Test 5: Custom Hashes May Be Negative ===');
+
+  // Java's String.hashCode: a signed 32-bit integer
+  const hashCode = (key: string) => {
+    let hash = 0;
+    for (let i = 0; i < key.length; i++) {
+      hash = (Math.imul(31, hash) + key.charCodeAt(i)) | 0;
+    }
+    return hash;
+  };
+  const cache = new ShardedCache<string, number>(1000, { shards: 8, hash: hashCode });
+  const keys = Array.from({ length: 200 }, (_, i) => `customer-${i}`);
+  const negative = keys.filter(key => hashCode(key) < 0).length;
+
+  for (const [i, key] of keys.entries()) {
+    cache.put(key, i);
+  }
+  const indexes = keys.map(key => cache.shardIndex(key));
+  const found = keys.filter((key, i) => cache.get(key) === i).length;
+
+  console.log(`Keys with a negative hash: ${negative} (expected: > 0)`);
+  console.log(`Shard indexes: ${Math.min(...indexes)}..${Math.max(...indexes)} (expected: within 0..7)`);
+  console.log(`Keys found: ${found}/200 (expected: 200)`);
+
+  const passed = negative > 0 && indexes.every(index => index >= 0 && index < 8) && found === 200;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║         Sharded Cache Implementation Tests        ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (testDistribution()) passed++; total++;
+    if (testShardEviction()) passed++; total++;
+    if (await testAcrossWorkers()) passed++; total++;
+    if (await testOwnerClosed()) passed++; total++;
+    if (testNegativeHash()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+if (!isMainThread) {
+  workerMain();
+} else if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
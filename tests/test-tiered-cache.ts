@@ -0,0 +1,265 @@
+/**
+ * Test the Two-Tier Cache implementation
+ * Run with: pnpm test:tiered-cache
+ */
+
+import { TieredCache, InMemoryL2Store } from '../data-structures/tiered-cache';
+
+// ============================================================================
+// Test 1: Read Fall-Through and Promotion
+// ============================================================================
+async function testReadPromotion() {
+  console.log('\n=== Test 1: L1 -> L2 Fall-Through and Promotion ===');
+
+  const store = new InMemoryL2Store<string>();
+  await store.set('user:1', 'Ada');
+
+  let l2Reads = 0;
+  const originalGet = store.get.bind(store);
+  store.get = async (key) => {
+    l2Reads++;
+    return originalGet(key);
+  };
+
+  const cache = new TieredCache<string>(10, store);
+  const first = await cache.get('user:1');
+  const second = await cache.get('user:1');
+  const missing = await cache.get('user:2');
+
+  console.log(`Reads: ${first}, ${second}, ${missing} (expected: Ada, Ada, undefined)`);
+  console.log(`L2 reads: ${l2Reads} (expected: 2 - second read served by L1)`);
+
+  const passed = first === 'Ada' && second === 'Ada' && missing === undefined && l2Reads === 2;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await cache.close();
+  return passed;
+}
+
+// ============================================================================
+// Test 2: Write-Through
+// ============================================================================
+async function testWriteThrough() {
+  console.log('\n=== Test 2: Write-Through ===');
+
+  const store = new InMemoryL2Store<number>();
+  const cache = new TieredCache<number>(10, store, { writeMode: 'write-through' });
+
+  await cache.set('counter', 1);
+  const inL2 = await store.get('counter');
+  await cache.delete('counter');
+  const afterDelete = await store.get('counter');
+
+  console.log(`L2 after set: ${inL2} (expected: 1), after delete: ${afterDelete} (expected: null)`);
+
+  const passed = inL2 === 1 && afterDelete === null;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await cache.close();
+  return passed;
+}
+
+// ============================================================================
+// Test 3: Write-Behind Batching
+// ============================================================================
+async function testWriteBehind() {
+  console.log('\n=== Test 3: Write-Behind Queue ===');
+
+  const store = new InMemoryL2Store<number>();
+  const cache = new TieredCache<number>(2, store, {
+    writeMode: 'write-behind',
+    flushInterval: 60000,
+    maxPendingWrites: 1000
+  });
+
+  await cache.set('a', 1);
+  await cache.set('a', 2);   // coalesced with the previous write
+  await cache.set('b', 3);
+  await cache.set('c', 4);   // L1 capacity 2: 'a' evicted from L1 while still dirty
+
+  const beforeFlush = store.size;
+  const dirtyRead = await cache.get('a');
+  console.log(`L2 size before flush: ${beforeFlush} (expected: 0)`);
+  console.log(`Read of unflushed, evicted key: ${dirtyRead} (expected: 2)`);
+
+  const written = await cache.flush();
+  console.log(`Flushed: ${written} (expected: 3), L2 a=${await store.get('a')} (expected: 2)`);
+
+  // Failed writes are retried on the next flush
+  let failNext = true;
+  const originalSet = store.set.bind(store);
+  store.set = async (key, value, origin) => {
+    if (failNext) {
+      failNext = false;
+      throw new Error('store unavailable');
+    }
+    return originalSet(key, value, origin);
+  };
+
+  await cache.set('d', 5);
+  const firstAttempt = await cache.flush();
+  const retry = await cache.flush();
+  console.log(`Failed flush wrote ${firstAttempt}, retry wrote ${retry} (expected: 0, 1)`);
+
+  const passed =
+    beforeFlush === 0 &&
+    dirtyRead === 2 &&
+    written === 3 &&
+    (await store.get('a')) === 2 &&
+    firstAttempt === 0 &&
+    retry === 1 &&
+    (await store.get('d')) === 5;
+
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await cache.close();
+  return passed;
+}
+
+// ============================================================================
+// Test 4: Invalidation From Another Server
+// ============================================================================
+async function testInvalidation() {
+  console.log('\n=== Test 4: L2 Invalidation Evicts L1 ===');
+
+  const store = new InMemoryL2Store<string>();
+  const serverA = new TieredCache<string>(10, store);
+  const serverB = new TieredCache<string>(10, store);
+
+  await serverA.set('config', 'v1');
+  await serverB.get('config');           // B now holds v1 in L1
+  const bBefore = serverB.l1Size;
+
+  await serverA.set('config', 'v2');     // B's copy must be dropped
+  const bAfter = serverB.l1Size;
+  const bRead = await serverB.get('config');
+  const aKept = serverA.l1Size;          // A ignores its own write
+
+  console.log(`B L1 size before/after A's write: ${bBefore}/${bAfter} (expected: 1/0)`);
+  console.log(`B reads: ${bRead} (expected: v2), A kept its L1 entry: ${aKept === 1}`);
+
+  const passed = bBefore === 1 && bAfter === 0 && bRead === 'v2' && aKept === 1;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await serverA.close();
+  await serverB.close();
+  return passed;
+}
+
+// ============================================================================
+// Test 5: Reads During a Slow Flush
+// ============================================================================
+async function testReadDuringFlush() {
+  console.log('\n=== Test 5: Reads During a Slow Flush ===');
+
+  const store = new InMemoryL2Store<string>();
+  await store.set('a', 'old');
+  const cache = new TieredCache<string>(1, store, {
+    writeMode: 'write-behind',
+    flushInterval: 60000,
+    maxPendingWrites: 1000
+  });
+
+  await cache.set('a', 'new');
+  await cache.set('b', 'x'); // L1 capacity 1: 'a' evicted while dirty
+
+  // Hold every L2 write until released
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  const originalSet = store.set.bind(store);
+  store.set = async (key, value, origin) => {
+    await gate;
+    return originalSet(key, value, origin);
+  };
+
+  const flushing = cache.flush();
+  const duringFlush = await cache.get('a');
+  release();
+  await flushing;
+  const afterFlush = await cache.get('a');
+
+  console.log(`Read during flush: ${duringFlush} (expected: new)`);
+  console.log(`Read after flush: ${afterFlush}, L2: ${await store.get('a')} (expected: new, new)`);
+
+  const passed = duringFlush === 'new' && afterFlush === 'new' && (await store.get('a')) === 'new';
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await cache.close();
+  return passed;
+}
+
+// ============================================================================
+// Test 6: Another Server Writes During a Slow Read
+// ============================================================================
+async function testRemoteWriteDuringRead() {
+  console.log('\n=== Test 6: Another Server Writes During a Slow Read ===');
+
+  const store = new InMemoryL2Store<string>();
+  await store.set('config', 'old');
+  const serverA = new TieredCache<string>(10, store);
+  const serverB = new TieredCache<string>(10, store);
+
+  // Hold A's next L2 read after it has fetched the value
+  let release!: () => void;
+  const gate = new Promise<void>(resolve => { release = resolve; });
+  let l2Reads = 0;
+  const originalGet = store.get.bind(store);
+  store.get = async key => {
+    l2Reads++;
+    const value = await originalGet(key);
+    if (l2Reads === 1) await gate;
+    return value;
+  };
+
+  const slowRead = serverA.get('config');
+  await new Promise(resolve => setImmediate(resolve)); // let A fetch 'old'
+  await serverB.set('config', 'new');                  // invalidates A, whose L1 is still empty
+  release();
+  const during = await slowRead;
+  const next = await serverA.get('config');
+
+  console.log(`Slow read: ${during} (expected: old, it started first)`);
+  console.log(`Next read on A: ${next}, L2 reads: ${l2Reads} (expected: new, 2 - the old value was not promoted)`);
+
+  const passed = during === 'old' && next === 'new' && l2Reads === 2;
+  console.log(passed ? '✓ PASSED' : '✗ FAILED');
+
+  await serverA.close();
+  await serverB.close();
+  return passed;
+}
+
+// ============================================================================
+// Run All Tests
+// ============================================================================
+async function runAllTests() {
+  console.log('╔════════════════════════════════════════════════════╗');
+  console.log('║          Two-Tier Cache Implementation Tests      ║');
+  console.log('╚════════════════════════════════════════════════════╝');
+
+  let passed = 0;
+  let total = 0;
+
+  try {
+    if (await testReadPromotion()) passed++; total++;
+    if (await testWriteThrough()) passed++; total++;
+    if (await testWriteBehind()) passed++; total++;
+    if (await testInvalidation()) passed++; total++;
+    if (await testReadDuringFlush()) passed++; total++;
+    if (await testRemoteWriteDuringRead()) passed++; total++;
+
+    console.log(`\nTests Passed: ${passed}/${total}\n`);
+  } catch (error) {
+    console.error('\n✗ Test failed with error:', error);
+    process.exit(1);
+  }
+
+  process.exit(passed === total ? 0 : 1);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runAllTests();
+}
+
+export { runAllTests };
@@ -12,6 +12,7 @@
 
 // Test your refactored version
 import { URLShortenerService } from '../system-design/url-shortener';
+import { FakeClock } from '../data-structures/clock';
 
 function assert(condition: boolean, message: string): void {
   if (!condition) {
@@ -21,10 +22,6 @@ function assert(condition: boolean, message: string): void {
   console.log(`✅ PASSED: ${message}`);
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 async function runTests() {
   console.log('🧪 Running URL Shortener Tests\n');
 
@@ -112,22 +109,22 @@ async function runTests() {
 
   // Test 7: URL with TTL/expiration
   console.log('Test 7: URL expiration');
-  const service5 = new URLShortenerService();
+  const clock5 = new FakeClock(Date.UTC(2024, 0, 1));
+  const service5 = new URLShortenerService(clock5);
   const result3 = service5.createShortURL({
     longUrl: 'https://temporary-link.com',
     ttlSeconds: 1 // Expires in 1 second
   });
 
   assert(result3.expiresAt !== null, 'Should have expiration timestamp');
-  assert(result3.expiresAt! > Date.now(), 'Expiration should be in future');
+  assert(result3.expiresAt! > clock5.now(), 'Expiration should be in future');
 
   // Should work before expiration
   const longUrl3 = service5.getLongURL(result3.shortCode);
   assert(longUrl3 === 'https://temporary-link.com', 'Should work before expiration');
 
   // Wait for expiration
-  console.log('  Waiting for URL to expire...');
-  await sleep(1100); // Wait 1.1 seconds
+  clock5.advance(1100); // 1.1 seconds later
 
   try {
     service5.getLongURL(result3.shortCode);
@@ -139,14 +136,15 @@ async function runTests() {
 
   // Test 8: Analytics for expired URL (should still work)
   console.log('Test 8: Analytics for expired URL');
-  const service6 = new URLShortenerService();
+  const clock6 = new FakeClock(Date.UTC(2024, 0, 1));
+  const service6 = new URLShortenerService(clock6);
   const result4 = service6.createShortURL({
     longUrl: 'https://test.com',
     ttlSeconds: 1
   });
 
   service6.getLongURL(result4.shortCode); // Access once
-  await sleep(1100); // Wait for expiration
+  clock6.advance(1100); // Past expiration
 
   // Analytics should still be accessible even after expiration
   // (This is a design choice - some systems allow this for historical data)
@@ -192,7 +190,8 @@ async function runTests() {
 
   // Test 11: List active URLs
   console.log('Test 11: List active URLs');
-  const service9 = new URLShortenerService();
+  const clock9 = new FakeClock(Date.UTC(2024, 0, 1));
+  const service9 = new URLShortenerService(clock9);
 
   // Create 3 URLs: 2 permanent, 1 expiring
   service9.createShortURL({ longUrl: 'https://perm1.com' });
@@ -204,7 +203,7 @@ async function runTests() {
 
   assert(service9.getTotalCount() === 3, 'Should have 3 URLs initially');
 
-  await sleep(1100); // Wait for one to expire
+  clock9.advance(1100); // One of them expires
 
   const activeUrls = service9.listActiveURLs();
   assert(activeUrls.length === 2, 'Should have 2 active URLs after cleanup');